@@ -0,0 +1,31 @@
+/**
+ * Create an API key for a user
+ * Usage: node --env-file=../../.env --experimental-transform-types scripts/create-api-key.ts <userId> [name] [roles] [tier]
+ *   roles: comma-separated, e.g. "admin"
+ *   tier: rate limit tier from RATE_LIMIT_TIERS, e.g. "premium"
+ */
+
+import { closeRedis } from "../src/lib/redis.ts";
+import { createApiKey } from "../src/services/apikey.service.ts";
+
+const [userId, name = "default", roles = "", tier] = process.argv.slice(2);
+
+if (!userId) {
+  console.error(
+    "Usage: scripts/create-api-key.ts <userId> [name] [roles (comma-separated)] [tier]",
+  );
+  process.exit(1);
+}
+
+const apiKey = await createApiKey(
+  userId,
+  name,
+  roles ? roles.split(",").map((role) => role.trim()) : [],
+  tier,
+);
+
+console.log();
+console.log(`API key for ${userId} (store it now, it cannot be shown again):`);
+console.log(apiKey);
+
+await closeRedis();
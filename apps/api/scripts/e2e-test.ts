@@ -40,6 +40,55 @@ function logSection(title: string): void {
   console.log(`${colors.yellow}=== ${title} ===${colors.reset}`);
 }
 
+// MAX_CONCURRENT_DOWNLOADS_PER_USER of the server under test
+const MAX_CONCURRENT = parseInt(
+  process.env.MAX_CONCURRENT_DOWNLOADS_PER_USER ?? "3",
+  10,
+);
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+async function postJson(path: string, body: unknown): Promise<Response> {
+  return fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// Create an async download job; jobId is unset when it was rejected
+async function createJob(
+  body: Record<string, unknown>,
+): Promise<{ status: number; jobId?: string }> {
+  const response = await postJson("/v1/download", body);
+  const data = (await response.json()) as { jobId?: string };
+  return { status: response.status, jobId: data.jobId };
+}
+
+async function cancelJob(jobId: string): Promise<number> {
+  const response = await fetch(`${BASE_URL}/v1/download/${jobId}`, {
+    method: "DELETE",
+  });
+  return response.status;
+}
+
+// Poll a GET endpoint until `done` accepts its body; null on timeout
+async function pollUntil<T>(
+  path: string,
+  done: (data: T) => boolean,
+  timeoutMs: number,
+): Promise<T | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const response = await fetch(`${BASE_URL}${path}`);
+    const data = (await response.json()) as T;
+    if (done(data)) return data;
+    await sleep(500);
+  }
+  return null;
+}
+
 async function waitForServer(): Promise<void> {
   console.log(`Waiting for server at ${BASE_URL}...`);
   for (let i = 0; i < 30; i++) {
@@ -504,6 +553,171 @@ async function testRateLimiting(): Promise<void> {
   }
 }
 
+async function testBatchBeyondConcurrency(): Promise<void> {
+  logSection("Batch Beyond Concurrency Limit");
+
+  // Batch files take no concurrency slots, so a batch larger than the limit
+  // runs at worker speed. A file deferred for a slot would wait 30s, longer
+  // than this test waits for the batch.
+  const fileIds = Array.from(
+    { length: MAX_CONCURRENT + 3 },
+    (_, i) => 10001 + i,
+  );
+  const response = await postJson("/v1/download/batch", { file_ids: fileIds });
+  const data = (await response.json()) as { batchId?: string };
+
+  if (response.status === 202 && data.batchId) {
+    logPass("Batch larger than the concurrency limit is accepted");
+  } else {
+    logFail(
+      "Batch larger than the concurrency limit is accepted",
+      '202 with "batchId"',
+      `${String(response.status)} ${JSON.stringify(data)}`,
+    );
+    return;
+  }
+
+  // The running batch leaves the user's slots free
+  const single = await createJob({ file_id: 10000 });
+  if (single.status === 202) {
+    logPass("Single job is accepted while the batch runs");
+  } else {
+    logFail(
+      "Single job is accepted while the batch runs",
+      "202",
+      String(single.status),
+    );
+  }
+  if (single.jobId) await cancelJob(single.jobId);
+
+  const batch = await pollUntil<{ status?: string }>(
+    `/v1/download/batch/${data.batchId}`,
+    (status) => status.status !== "queued" && status.status !== "processing",
+    20000,
+  );
+  if (batch) {
+    logPass("Batch finishes without waiting for concurrency slots");
+  } else {
+    logFail(
+      "Batch finishes without waiting for concurrency slots",
+      "finished within 20s",
+      "still queued or processing",
+    );
+  }
+}
+
+async function testConcurrencyLimit(): Promise<void> {
+  logSection("Concurrency Limit");
+
+  const jobIds: string[] = [];
+  for (let i = 0; i < MAX_CONCURRENT; i++) {
+    const job = await createJob({ file_id: 10000 });
+    if (job.jobId) jobIds.push(job.jobId);
+  }
+  if (jobIds.length === MAX_CONCURRENT) {
+    logPass(`${String(MAX_CONCURRENT)} concurrent jobs are accepted`);
+  } else {
+    logFail(
+      `${String(MAX_CONCURRENT)} concurrent jobs are accepted`,
+      String(MAX_CONCURRENT),
+      String(jobIds.length),
+    );
+  }
+
+  const overLimit = await createJob({ file_id: 10000 });
+  if (overLimit.status === 429) {
+    logPass("Job over the concurrency limit returns 429");
+  } else {
+    logFail(
+      "Job over the concurrency limit returns 429",
+      "429",
+      String(overLimit.status),
+    );
+  }
+  if (overLimit.jobId) jobIds.push(overLimit.jobId);
+
+  // Cancelling a job frees its slot right away
+  const cancelled = jobIds.shift();
+  if (cancelled) await cancelJob(cancelled);
+  const afterCancel = await createJob({ file_id: 10000 });
+  if (afterCancel.status === 202) {
+    logPass("Cancelling a job frees its slot");
+  } else {
+    logFail(
+      "Cancelling a job frees its slot",
+      "202",
+      String(afterCancel.status),
+    );
+  }
+  if (afterCancel.jobId) jobIds.push(afterCancel.jobId);
+
+  for (const jobId of jobIds) await cancelJob(jobId);
+}
+
+async function testScheduledJobSlot(): Promise<void> {
+  logSection("Scheduled Job Concurrency Slot");
+
+  const scheduled = await createJob({ file_id: 10000, delayMs: 3000 });
+  if (scheduled.status !== 202 || !scheduled.jobId) {
+    logFail("Scheduled job is accepted", "202", String(scheduled.status));
+    return;
+  }
+  logPass("Scheduled job is accepted");
+
+  // A waiting scheduled job holds no slot
+  const waiting: string[] = [];
+  for (let i = 0; i < MAX_CONCURRENT; i++) {
+    const job = await createJob({ file_id: 10000 });
+    if (job.jobId) waiting.push(job.jobId);
+  }
+  if (waiting.length === MAX_CONCURRENT) {
+    logPass("Waiting scheduled job leaves all slots free");
+  } else {
+    logFail(
+      "Waiting scheduled job leaves all slots free",
+      `${String(MAX_CONCURRENT)} jobs accepted`,
+      String(waiting.length),
+    );
+  }
+  for (const jobId of waiting) await cancelJob(jobId);
+
+  const started = await pollUntil<{ status?: string }>(
+    `/v1/download/status/${scheduled.jobId}`,
+    (status) => status.status === "processing",
+    15000,
+  );
+  if (!started) {
+    logFail(
+      "Scheduled job starts processing",
+      "processing within 15s",
+      "not started",
+    );
+    await cancelJob(scheduled.jobId);
+    return;
+  }
+  logPass("Scheduled job starts processing");
+
+  // Once started, it holds one of the slots
+  const running: string[] = [];
+  let overLimitStatus = 0;
+  for (let i = 0; i < MAX_CONCURRENT; i++) {
+    const job = await createJob({ file_id: 10000 });
+    if (job.jobId) running.push(job.jobId);
+    else overLimitStatus = job.status;
+  }
+  if (running.length === MAX_CONCURRENT - 1 && overLimitStatus === 429) {
+    logPass("Started scheduled job takes a concurrency slot");
+  } else {
+    logFail(
+      "Started scheduled job takes a concurrency slot",
+      `${String(MAX_CONCURRENT - 1)} jobs accepted, then 429`,
+      `${String(running.length)} accepted, last status ${String(overLimitStatus)}`,
+    );
+  }
+
+  for (const jobId of [scheduled.jobId, ...running]) await cancelJob(jobId);
+}
+
 function printSummary(): void {
   console.log();
   console.log(`${colors.yellow}==============================${colors.reset}`);
@@ -537,6 +751,9 @@ async function main(): Promise<void> {
   await testContentType();
   await testMethodNotAllowed();
   await testRateLimiting();
+  await testConcurrencyLimit();
+  await testScheduledJobSlot();
+  await testBatchBeyondConcurrency();
 
   printSummary();
 
@@ -0,0 +1,20 @@
+/**
+ * Revoke an API key
+ * Usage: node --env-file=../../.env --experimental-transform-types scripts/revoke-api-key.ts <apiKey>
+ */
+
+import { closeRedis } from "../src/lib/redis.ts";
+import { revokeApiKey } from "../src/services/apikey.service.ts";
+
+const [apiKey] = process.argv.slice(2);
+
+if (!apiKey) {
+  console.error("Usage: scripts/revoke-api-key.ts <apiKey>");
+  process.exit(1);
+}
+
+const revoked = await revokeApiKey(apiKey);
+console.log(revoked ? "API key revoked" : "API key not found");
+
+await closeRedis();
+process.exitCode = revoked ? 0 : 1;
@@ -30,6 +30,7 @@ const colors = {
 };
 
 let serverProcess: ChildProcess | null = null;
+let workerProcess: ChildProcess | null = null;
 
 function cleanup(): void {
   console.log();
@@ -37,6 +38,9 @@ function cleanup(): void {
   if (serverProcess && !serverProcess.killed) {
     serverProcess.kill("SIGTERM");
   }
+  if (workerProcess && !workerProcess.killed) {
+    workerProcess.kill("SIGTERM");
+  }
   console.log("Done.");
 }
 
@@ -66,9 +70,11 @@ async function waitForServer(maxAttempts = 30): Promise<boolean> {
   return false;
 }
 
-async function startServer(): Promise<ChildProcess> {
-  console.log(`${colors.yellow}Starting server...${colors.reset}`);
-
+async function startProcess(
+  name: string,
+  entry: string,
+  env: NodeJS.ProcessEnv = {},
+): Promise<ChildProcess> {
   // Check if .env file exists, use --env-file only if it does
   const envFilePath = path.join(repoRoot, ".env");
   const envFileArg =
@@ -76,30 +82,47 @@ async function startServer(): Promise<ChildProcess> {
       ? [`--env-file=${path.relative(projectDir, envFilePath)}`]
       : [];
 
-  const server = spawn(
+  const child = spawn(
     "node",
-    [...envFileArg, "--experimental-transform-types", "src/index.ts"],
+    [...envFileArg, "--experimental-transform-types", entry],
     {
       cwd: projectDir,
       stdio: ["ignore", "pipe", "pipe"],
-      env: { ...process.env },
+      env: { ...process.env, ...env },
     },
   );
 
-  server.stdout?.on("data", (data: Buffer) => {
+  child.stdout?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
-    if (output) console.log(`[server] ${output}`);
+    if (output) console.log(`[${name}] ${output}`);
   });
 
-  server.stderr?.on("data", (data: Buffer) => {
+  child.stderr?.on("data", (data: Buffer) => {
     const output = data.toString().trim();
     // Filter out experimental warning
     if (output && !output.includes("ExperimentalWarning")) {
-      console.error(`[server] ${output}`);
+      console.error(`[${name}] ${output}`);
     }
   });
 
-  return server;
+  return child;
+}
+
+async function startServer(): Promise<ChildProcess> {
+  console.log(`${colors.yellow}Starting server...${colors.reset}`);
+  return startProcess("server", "src/index.ts");
+}
+
+// The job tests need a worker. Every simulated download takes 3s: long
+// enough to hold a concurrency slot while a test checks it, short enough to
+// finish within the tests' timeouts.
+async function startWorker(): Promise<ChildProcess> {
+  console.log(`${colors.yellow}Starting worker...${colors.reset}`);
+  return startProcess("worker", "src/worker.ts", {
+    DOWNLOAD_PROCESSING_MODE: "simulated",
+    DOWNLOAD_DELAY_MIN_MS: "3000",
+    DOWNLOAD_DELAY_MAX_MS: "3000",
+  });
 }
 
 async function runTests(): Promise<number> {
@@ -125,8 +148,9 @@ async function runTests(): Promise<number> {
 
 async function main(): Promise<void> {
   try {
-    // Start server
+    // Start server and worker
     serverProcess = await startServer();
+    workerProcess = await startWorker();
 
     // Wait for server to be ready
     console.log(
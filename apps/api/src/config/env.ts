@@ -7,6 +7,85 @@ const optionalUrl = z
   .transform((val) => (val === "" ? undefined : val))
   .pipe(z.url().optional());
 
+// Per-tier settings as "tier=value,tier=value"
+const tierMap = <T extends z.ZodType>(value: T, defaultValue = "") =>
+  z
+    .string()
+    .default(defaultValue)
+    .transform((val, ctx) => {
+      const map: Record<string, z.output<T>> = {};
+      for (const entry of val.split(",")) {
+        if (entry.trim() === "") continue;
+        const [tier = "", setting = ""] = entry
+          .split("=")
+          .map((part) => part.trim());
+        const parsed = value.safeParse(setting);
+        if (tier === "" || !parsed.success) {
+          ctx.addIssue({ code: "custom", message: `Invalid entry "${entry}"` });
+          return z.NEVER;
+        }
+        map[tier] = parsed.data;
+      }
+      return map;
+    });
+
+// Job priority lanes, highest first
+export const JOB_PRIORITIES = ["interactive", "normal", "bulk"] as const;
+export type JobPriority = (typeof JOB_PRIORITIES)[number];
+
+// Machine-readable download failure reasons (see lib/job-errors.ts)
+export const JOB_ERROR_CODES = [
+  "not_found",
+  "storage_unavailable",
+  "storage_throttled",
+  "timeout",
+  "cancelled",
+  "internal",
+] as const;
+export type JobErrorCode = (typeof JOB_ERROR_CODES)[number];
+
+// Formats of multi-file archive jobs (see lib/archive.ts)
+export const ARCHIVE_FORMATS = ["zip", "tar.gz"] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+// How failures of one error code are retried
+export const RETRY_BACKOFF_TYPES = ["none", "fixed", "exponential"] as const;
+const RetryPolicySchema = z.object({
+  backoff: z.enum(RETRY_BACKOFF_TYPES),
+  maxAttempts: z.number().int().min(1).max(100).default(1),
+  delayMs: z.number().int().min(0).default(0),
+  jitter: z.number().min(0).max(1).default(0), // Fraction of the delay randomized
+});
+export type RetryPolicy = z.output<typeof RetryPolicySchema>;
+
+// Retry policies per error code as JSON, e.g.
+// '{"timeout":{"backoff":"fixed","maxAttempts":3,"delayMs":5000}}'
+const retryPolicies = z
+  .string()
+  .default("{}")
+  .transform((val, ctx) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(val);
+    } catch {
+      ctx.addIssue({ code: "custom", message: "Invalid JSON" });
+      return z.NEVER;
+    }
+    const parsed = z
+      .partialRecord(z.enum(JOB_ERROR_CODES), RetryPolicySchema)
+      .safeParse(json);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${issue.path.join(".")}: ${issue.message}`,
+        });
+      }
+      return z.NEVER;
+    }
+    return parsed.data;
+  });
+
 // Environment schema
 export const EnvSchema = z.object({
   NODE_ENV: z
@@ -36,12 +115,19 @@ export const EnvSchema = z.object({
   REQUEST_TIMEOUT_MS: z.coerce.number().int().min(1000).default(30000),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().min(1000).default(60000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().min(1).default(100),
+  // Per-tier overrides, e.g. "anonymous=30,premium=1000"
+  RATE_LIMIT_TIERS: tierMap(z.coerce.number().int().min(1)),
+  // Rejected credentials per client IP per window, checked before auth
+  AUTH_FAILURE_LIMIT: z.coerce.number().int().min(1).default(20),
   CORS_ORIGINS: z
     .string()
     .default("*")
     .transform((val) => (val === "*" ? "*" : val.split(","))),
 
   // Download Configuration
+  // "stream" reads each object from storage for byte-accurate progress;
+  // "simulated" sleeps DOWNLOAD_DELAY_MIN_MS..MAX_MS instead (demos)
+  DOWNLOAD_PROCESSING_MODE: z.enum(["stream", "simulated"]).default("stream"),
   DOWNLOAD_DELAY_MIN_MS: z.coerce.number().int().min(0).default(10000),
   DOWNLOAD_DELAY_MAX_MS: z.coerce.number().int().min(0).default(200000),
   DOWNLOAD_DELAY_ENABLED: z.coerce.boolean().default(true),
@@ -50,9 +136,94 @@ export const EnvSchema = z.object({
   JOB_TTL_SECONDS: z.coerce.number().int().min(60).default(86400), // 24 hours
   JOB_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
   JOB_BACKOFF_DELAY_MS: z.coerce.number().int().min(100).default(1000),
+  // Per-error-code overrides; codes not listed use JOB_MAX_ATTEMPTS with
+  // exponential JOB_BACKOFF_DELAY_MS backoff (permanent codes never retry)
+  RETRY_POLICIES: retryPolicies,
   WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+  WORKER_METRICS_PORT: z.coerce.number().int().min(0).max(65535).default(9091), // 0 disables
+  // Highest lane per rate limit tier, also its default lane,
+  // e.g. "anonymous=bulk,premium=interactive"
+  JOB_PRIORITY_BY_TIER: tierMap(z.enum(JOB_PRIORITIES)),
+  JOB_PRIORITY_DEFAULT: z.enum(JOB_PRIORITIES).default("normal"),
   MAX_CONCURRENT_DOWNLOADS_PER_USER: z.coerce.number().int().min(1).default(3),
+  // Distinct files per batch request (batch files take no concurrency slots),
+  // with per-tier overrides; setting the overrides replaces the default
+  BATCH_MAX_FILES: z.coerce.number().int().min(1).max(1000).default(1000),
+  BATCH_MAX_FILES_TIERS: tierMap(
+    z.coerce.number().int().min(1).max(1000),
+    "anonymous=10",
+  ),
+  // Furthest ahead a job may be scheduled with runAt/delayMs
+  SCHEDULE_MAX_DELAY_MS: z.coerce
+    .number()
+    .int()
+    .min(60000)
+    .default(7 * 24 * 60 * 60 * 1000),
   PRESIGNED_URL_EXPIRY_SECONDS: z.coerce.number().int().min(60).default(3600),
+  JOB_EVENT_HISTORY_SIZE: z.coerce.number().int().min(10).default(200), // SSE replay buffer per job
+
+  // Watchdog Configuration (stuck job recovery, runs in the worker)
+  WATCHDOG_INTERVAL_MS: z.coerce.number().int().min(0).default(60000), // 0 disables
+  WATCHDOG_STUCK_THRESHOLD_MS: z.coerce
+    .number()
+    .int()
+    .min(1000)
+    .default(10 * 60 * 1000),
+  WATCHDOG_ACTION: z.enum(["requeue", "fail"]).default("requeue"),
+
+  // Reconciliation Configuration (Redis/S3 drift detection)
+  RECONCILE_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(24 * 60 * 60 * 1000), // 0 disables the schedule
+
+  // Webhook callbacks (signed with HMAC-SHA256)
+  WEBHOOK_SIGNING_SECRET: z.string().optional(), // Unset disables callbackUrl
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10000),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(8),
+  WEBHOOK_BACKOFF_DELAY_MS: z.coerce.number().int().min(100).default(5000),
+  // Hosts a callbackUrl may use even though they resolve to private addresses
+  WEBHOOK_ALLOWED_PRIVATE_HOSTS: z
+    .string()
+    .default("")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((host) => host.trim().toLowerCase())
+        .filter((host) => host !== ""),
+    ),
+
+  // Admin API
+  ADMIN_API_KEY: z.string().optional(),
+
+  // Authentication
+  AUTH_PROVIDERS: z
+    .string()
+    .default("apikey,jwt")
+    .transform((val) => val.split(",").map((p) => p.trim()))
+    .pipe(z.array(z.enum(["apikey", "jwt"]))),
+  // Explicit "true"/"false" - z.coerce.boolean() would treat "false" as true
+  AUTH_ALLOW_ANONYMOUS: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((val) => val === "true"),
+  JWT_HS256_SECRET: z.string().optional(),
+  JWT_JWKS_PATH: z.string().optional(), // Local JWKS file for RS256 tokens
+  JWT_ISSUER: z.string().optional(),
+  JWT_AUDIENCE: z.string().optional(),
+  // Proxies (IPs or CIDR ranges) allowed to set X-Forwarded-For; the client
+  // IP of every other connection is its socket address
+  TRUSTED_PROXIES: z
+    .string()
+    .default("")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== ""),
+    )
+    .pipe(z.array(z.union([z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()]))),
 });
 
 // Parse and validate environment
@@ -14,22 +14,38 @@ import { Scalar } from "@scalar/hono-api-reference";
 import { cors } from "hono/cors";
 import { secureHeaders } from "hono/secure-headers";
 import { timeout } from "hono/timeout";
-import { rateLimiter } from "hono-rate-limiter";
 
 // Type augmentation for Hono context
 import "./types/hono.d.ts";
 
 import { env } from "./config/env.ts";
+import {
+  initMetrics,
+  metricsRegistry,
+  registerApiGauges,
+} from "./lib/metrics.ts";
+import { closePubSub } from "./lib/pubsub.ts";
 import { closeQueue } from "./lib/queue.ts";
 import { closeRedis } from "./lib/redis.ts";
 import { closeS3 } from "./lib/s3.ts";
 import { startTelemetry, shutdownTelemetry } from "./lib/telemetry.ts";
+import { authMiddleware } from "./middleware/auth.ts";
+import { metricsMiddleware } from "./middleware/metrics.ts";
+import {
+  authFailureLimitMiddleware,
+  rateLimitMiddleware,
+} from "./middleware/rate-limit.ts";
+import { adminRouter } from "./routes/admin.routes.ts";
 import { downloadRouter } from "./routes/download.routes.ts";
 import { healthRouter } from "./routes/health.routes.ts";
 
 // Start OpenTelemetry
 startTelemetry();
 
+// Prometheus metrics
+initMetrics("api");
+registerApiGauges();
+
 // Create main Hono app
 const app = new OpenAPIHono();
 
@@ -43,6 +59,9 @@ app.use(async (c, next) => {
   await next();
 });
 
+// Request latency metrics
+app.use(metricsMiddleware());
+
 // Security headers middleware (helmet-like)
 app.use(secureHeaders());
 
@@ -50,51 +69,45 @@ app.use(secureHeaders());
 app.use(
   cors({
     origin: env.CORS_ORIGINS,
-    allowMethods: ["GET", "POST", "OPTIONS"],
+    allowMethods: ["GET", "POST", "DELETE", "OPTIONS"],
     allowHeaders: [
       "Content-Type",
       "Authorization",
+      "X-API-Key",
       "X-Request-ID",
+      "Idempotency-Key",
+      "X-Idempotency-Key",
+      "Last-Event-ID",
       "traceparent",
       "tracestate",
     ],
     exposeHeaders: [
       "X-Request-ID",
-      "X-RateLimit-Limit",
-      "X-RateLimit-Remaining",
+      "RateLimit-Policy",
+      "RateLimit-Limit",
+      "RateLimit-Remaining",
+      "RateLimit-Reset",
+      "Retry-After",
+      "Idempotent-Replayed",
     ],
     maxAge: 86400,
   }),
 );
 
+// SSE endpoints (single-job and multiplexed) stay open for minutes
+const isSSEPath = (path: string): boolean =>
+  path.startsWith("/v1/download/subscribe");
+
 // Request timeout middleware (skip for SSE endpoints)
 app.use(async (c, next) => {
   // Skip timeout for SSE endpoints
-  if (c.req.path.includes("/subscribe/")) {
+  if (isSSEPath(c.req.path)) {
     await next();
     return;
   }
   return timeout(env.REQUEST_TIMEOUT_MS)(c, next);
 });
 
-// Rate limiting middleware (skip for SSE endpoints)
-app.use(async (c, next) => {
-  // Skip rate limiting for SSE endpoints
-  if (c.req.path.includes("/subscribe/")) {
-    await next();
-    return;
-  }
-  return rateLimiter({
-    windowMs: env.RATE_LIMIT_WINDOW_MS,
-    limit: env.RATE_LIMIT_MAX_REQUESTS,
-    standardHeaders: "draft-6",
-    keyGenerator: (ctx) =>
-      ctx.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-      ctx.req.header("x-real-ip") ??
-      "anonymous",
-  })(c, next);
-});
-
 // OpenTelemetry middleware
 app.use(
   httpInstrumentationMiddleware({
@@ -109,6 +122,16 @@ app.use(
   }),
 );
 
+// Failed authentication limiting - per client IP, so it runs before auth
+app.use("/v1/*", authFailureLimitMiddleware());
+
+// Authentication middleware - resolves the caller for all API routes
+app.use("/v1/*", authMiddleware());
+
+// Rate limiting middleware - per principal, so it runs after auth
+// (skip for SSE endpoints)
+app.use(rateLimitMiddleware({ skip: (c) => isSSEPath(c.req.path) }));
+
 // ============ Error Handler ============
 
 app.onError((err, c) => {
@@ -136,12 +159,21 @@ app.onError((err, c) => {
 
 // ============ Routes ============
 
+// Prometheus scrape endpoint (outside /v1, no auth like /health)
+app.get("/metrics", async (c) => {
+  const body = await metricsRegistry.metrics();
+  return c.body(body, 200, { "Content-Type": metricsRegistry.contentType });
+});
+
 // Mount health routes
 app.route("/", healthRouter);
 
 // Mount download routes
 app.route("/", downloadRouter);
 
+// Mount admin routes
+app.route("/", adminRouter);
+
 // ============ OpenAPI Documentation ============
 
 if (env.NODE_ENV !== "production") {
@@ -160,8 +192,9 @@ This API implements an async job-based architecture for handling long-running do
 - **Non-blocking API**: Immediate 202 response with job ID
 - **Real-time updates**: SSE streaming for progress
 - **Polling fallback**: GET /status/:jobId for environments that don't support SSE
-- **Idempotency**: X-Idempotency-Key header prevents duplicate jobs
-- **Rate limiting**: Per-user concurrent download limits
+- **Idempotency**: Idempotency-Key header (IETF draft) makes job creation safe to retry
+- **Rate limiting**: Per-principal request limits (tiered) and per-user concurrent download limits
+- **Authentication**: API keys (\`X-API-Key\`) or JWT bearer tokens (HS256/RS256)
 
 ## Recommended Flow
 
@@ -169,6 +202,7 @@ This API implements an async job-based architecture for handling long-running do
 2. **Subscribe to updates**: GET /v1/download/subscribe/:jobId (SSE)
 3. **Or poll status**: GET /v1/download/status/:jobId
 4. **Download file**: Use returned presigned URL
+5. **Cancel (optional)**: DELETE /v1/download/:jobId
 
 ## Legacy Endpoints
 
@@ -217,7 +251,12 @@ const gracefulShutdown = (server: ServerType) => (signal: string) => {
     console.log("[Server] HTTP server closed");
 
     // Shutdown components in parallel
-    Promise.all([shutdownTelemetry(), closeRedis(), closeQueue()])
+    Promise.all([
+      shutdownTelemetry(),
+      closeRedis(),
+      closeQueue(),
+      closePubSub(),
+    ])
       .then(() => {
         // Close S3 client
         closeS3();
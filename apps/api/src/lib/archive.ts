@@ -0,0 +1,299 @@
+/**
+ * Archive Writer
+ *
+ * Streams files into a single ZIP or tar.gz archive without buffering whole
+ * files: each entry's body is copied through as it is read, so memory use
+ * stays flat no matter how many or how large the files are.
+ *
+ * ZIP entries are stored uncompressed (the source objects are already ZIPs)
+ * with a data descriptor, since the CRC is only known once the body was read.
+ * ZIP64 records are added when a size or offset exceeds 4 GiB. tar.gz uses
+ * ustar headers (base-256 sizes above 8 GiB) and gzip compression.
+ */
+import { Readable, pipeline } from "node:stream";
+import { crc32, createGzip } from "node:zlib";
+import type { ArchiveFormat } from "../config/env.ts";
+
+// One file of an archive; body must yield exactly `size` bytes
+export interface ArchiveEntry {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+  body: AsyncIterable<Uint8Array>;
+}
+
+export const ARCHIVE_EXTENSIONS: Record<ArchiveFormat, string> = {
+  zip: "zip",
+  "tar.gz": "tar.gz",
+};
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+};
+
+// Copy an entry's body, failing if it doesn't match the announced size
+async function* copyBody(
+  entry: ArchiveEntry,
+  onChunk?: (chunk: Uint8Array) => void,
+): AsyncGenerator<Uint8Array> {
+  let size = 0;
+  for await (const chunk of entry.body) {
+    size += chunk.length;
+    onChunk?.(chunk);
+    yield chunk;
+  }
+  if (size !== entry.size) {
+    throw new Error(
+      `Archive entry ${entry.name} has ${size.toString()} bytes, expected ${entry.size.toString()}`,
+    );
+  }
+}
+
+// ============ ZIP ============
+
+const ZIP32_LIMIT = 0xffffffff;
+const ZIP_FLAGS = 0x0808; // Data descriptor follows the body, UTF-8 name
+
+// MS-DOS date and time of an entry (2-second precision, 1980 at the earliest)
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+interface ZipRecord {
+  name: Buffer;
+  dosTime: { time: number; date: number };
+  crc: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+}
+
+// ZIP64 extended information extra field with the given 64-bit values
+const zip64Extra = (values: number[]): Buffer => {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => {
+    extra.writeBigUInt64LE(BigInt(value), 4 + i * 8);
+  });
+  return extra;
+};
+
+const zipLocalHeader = (record: ZipRecord): Buffer => {
+  // Sizes follow in the data descriptor; ZIP64 entries say so up front
+  const extra = record.zip64 ? zip64Extra([0, 0]) : Buffer.alloc(0);
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(record.zip64 ? 45 : 20, 4);
+  header.writeUInt16LE(ZIP_FLAGS, 6);
+  header.writeUInt16LE(0, 8); // Stored
+  header.writeUInt16LE(record.dosTime.time, 10);
+  header.writeUInt16LE(record.dosTime.date, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(record.zip64 ? ZIP32_LIMIT : 0, 18);
+  header.writeUInt32LE(record.zip64 ? ZIP32_LIMIT : 0, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, record.name, extra]);
+};
+
+const zipDataDescriptor = (record: ZipRecord): Buffer => {
+  if (record.zip64) {
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(record.size), 8);
+    descriptor.writeBigUInt64LE(BigInt(record.size), 16);
+    return descriptor;
+  }
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.size, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+};
+
+const zipCentralHeader = (record: ZipRecord): Buffer => {
+  const largeSize = record.size >= ZIP32_LIMIT;
+  const largeOffset = record.offset >= ZIP32_LIMIT;
+  const values = [
+    ...(largeSize ? [record.size, record.size] : []),
+    ...(largeOffset ? [record.offset] : []),
+  ];
+  const extra = values.length > 0 ? zip64Extra(values) : Buffer.alloc(0);
+  const version = record.zip64 || values.length > 0 ? 45 : 20;
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(version, 4);
+  header.writeUInt16LE(version, 6);
+  header.writeUInt16LE(ZIP_FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.dosTime.time, 12);
+  header.writeUInt16LE(record.dosTime.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(largeSize ? ZIP32_LIMIT : record.size, 20);
+  header.writeUInt32LE(largeSize ? ZIP32_LIMIT : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  // Comment, disk number, attributes: all zero
+  header.writeUInt32LE(largeOffset ? ZIP32_LIMIT : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+};
+
+const zipEnd = (
+  entries: number,
+  directorySize: number,
+  directoryOffset: number,
+): Buffer => {
+  const needsZip64 =
+    entries >= 0xffff ||
+    directorySize >= ZIP32_LIMIT ||
+    directoryOffset >= ZIP32_LIMIT;
+  const parts: Buffer[] = [];
+
+  if (needsZip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4); // Size of the rest of the record
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(entries), 24);
+    record.writeBigUInt64LE(BigInt(entries), 32);
+    record.writeBigUInt64LE(BigInt(directorySize), 40);
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(entries, 0xffff), 8);
+  end.writeUInt16LE(Math.min(entries, 0xffff), 10);
+  end.writeUInt32LE(Math.min(directorySize, ZIP32_LIMIT), 12);
+  end.writeUInt32LE(Math.min(directoryOffset, ZIP32_LIMIT), 16);
+  parts.push(end);
+  return Buffer.concat(parts);
+};
+
+async function* zipChunks(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Uint8Array> {
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const record: ZipRecord = {
+      name: Buffer.from(entry.name, "utf8"),
+      dosTime: toDosDateTime(entry.modifiedAt),
+      crc: 0,
+      size: entry.size,
+      offset,
+      zip64: entry.size >= ZIP32_LIMIT,
+    };
+
+    const header = zipLocalHeader(record);
+    yield header;
+    for await (const chunk of copyBody(entry, (data) => {
+      record.crc = crc32(data, record.crc);
+    })) {
+      yield chunk;
+    }
+    const descriptor = zipDataDescriptor(record);
+    yield descriptor;
+
+    offset += header.length + entry.size + descriptor.length;
+    records.push(record);
+  }
+
+  const directory = Buffer.concat(records.map(zipCentralHeader));
+  yield directory;
+  yield zipEnd(records.length, directory.length, offset);
+}
+
+// ============ tar ============
+
+const TAR_BLOCK = 512;
+const TAR_MAX_OCTAL_SIZE = 0o77777777777;
+
+// Zero-padded octal number followed by a NUL, filling `length` bytes
+const writeOctal = (
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number,
+): void => {
+  header.write(
+    value.toString(8).padStart(length - 1, "0"),
+    offset,
+    length - 1,
+    "ascii",
+  );
+};
+
+const tarHeader = (entry: ArchiveEntry): Buffer => {
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(entry.name, 0, 100, "utf8");
+  writeOctal(header, 0o644, 100, 8); // Mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  if (entry.size > TAR_MAX_OCTAL_SIZE) {
+    // GNU base-256 size for files of 8 GiB and more
+    header.writeUInt8(0x80, 124);
+    header.writeBigUInt64BE(BigInt(entry.size), 128);
+  } else {
+    writeOctal(header, entry.size, 124, 12);
+  }
+  writeOctal(header, Math.floor(entry.modifiedAt.getTime() / 1000), 136, 12);
+  header.write("0", 156, "ascii"); // Regular file
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+
+  // Checksum is computed with its own field set to spaces
+  header.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+  return header;
+};
+
+async function* tarChunks(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Uint8Array> {
+  for await (const entry of entries) {
+    yield tarHeader(entry);
+    yield* copyBody(entry);
+    const padding = (TAR_BLOCK - (entry.size % TAR_BLOCK)) % TAR_BLOCK;
+    if (padding > 0) yield Buffer.alloc(padding);
+  }
+  // End of archive: two empty blocks
+  yield Buffer.alloc(TAR_BLOCK * 2);
+}
+
+// Stream entries into an archive of the given format. Errors from the
+// entries (or their bodies) fail the returned stream.
+export const createArchive = (
+  format: ArchiveFormat,
+  entries: AsyncIterable<ArchiveEntry>,
+): Readable => {
+  if (format === "zip") return Readable.from(zipChunks(entries));
+
+  const gzip = createGzip();
+  pipeline(Readable.from(tarChunks(entries)), gzip, () => {
+    // pipeline() destroys gzip with the error; its reader sees it
+  });
+  return gzip;
+};
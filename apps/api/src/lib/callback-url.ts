@@ -0,0 +1,81 @@
+/**
+ * Callback URL Guard
+ *
+ * Webhooks are POSTed from inside the deployment, so a callbackUrl must not
+ * reach internal services (Redis, MinIO, cloud metadata at 169.254.169.254,
+ * anything on loopback or a private network). The host is resolved and every
+ * address it resolves to must be public. This runs when a job is created and
+ * again before each delivery, since DNS answers can change in between.
+ * Deliveries don't follow redirects.
+ *
+ * Hosts in WEBHOOK_ALLOWED_PRIVATE_HOSTS skip the check (e.g. a receiver on
+ * the compose network during development).
+ */
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { env } from "../config/env.ts";
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 of any IPv4 address
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+  return blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+};
+
+// Why a callback URL must not be called, or null if it may be. DNS failures
+// are thrown: the host may resolve again later.
+export const getCallbackUrlViolation = async (
+  url: string,
+): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "callbackUrl is not a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "callbackUrl must use http or https";
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (env.WEBHOOK_ALLOWED_PRIVATE_HOSTS.includes(host)) return null;
+
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true, verbatim: true })).map(
+        (entry) => entry.address,
+      );
+  const blocked = addresses.find(isBlockedAddress);
+  return blocked === undefined
+    ? null
+    : `callbackUrl host ${host} resolves to a non-public address (${blocked})`;
+};
@@ -0,0 +1,100 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Fair Queue Ordering
+ *
+ * Interleaves waiting download jobs across users. Each user's waiting jobs
+ * are tracked in a sorted set (jobId -> enqueued at), and a new job's BullMQ
+ * priority is offset by how many of its owner's jobs already wait ahead of
+ * it. Every user's first waiting job therefore runs before anyone's second,
+ * which gives round-robin order within a priority lane without a dispatcher.
+ *
+ * Jobs leave the rotation when a worker picks them up or they are removed
+ * from the queue (cancel, reschedule).
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { env } from "../config/env.ts";
+import { redis, RedisKeys } from "./redis.ts";
+
+// Distinct positions per lane; deeper backlogs share the last one
+export const FAIR_DEPTH_LEVELS = 100;
+
+// Waiting jobs of one user, as shown in queue stats
+export interface UserQueueDepth {
+  userId: string;
+  waiting: number;
+}
+
+// Drop a job from its owner's set, and the owner from the waiting users
+// once nothing of theirs is left
+const LEAVE_SCRIPT = `
+redis.call("ZREM", KEYS[1], ARGV[1])
+if redis.call("ZCARD", KEYS[1]) == 0 then
+  redis.call("SREM", KEYS[2], ARGV[2])
+end
+`;
+
+// Waiting jobs per user as a flat [userId, count, ...] list; users whose set
+// emptied or expired are pruned on the way
+const DEPTHS_SCRIPT = `
+local result = {}
+for _, userId in ipairs(redis.call("SMEMBERS", KEYS[1])) do
+  local waiting = redis.call("ZCARD", ARGV[1] .. userId)
+  if waiting == 0 then
+    redis.call("SREM", KEYS[1], userId)
+  else
+    table.insert(result, userId)
+    table.insert(result, waiting)
+  end
+end
+return result
+`;
+
+// Track a job as waiting; returns how many of the user's jobs wait ahead of it
+export const enterFairQueue = async (
+  userId: string,
+  jobId: string,
+): Promise<number> => {
+  const key = RedisKeys.userWaitingJobs(userId);
+  const results = await redis
+    .multi()
+    .zadd(key, "NX", Date.now(), jobId)
+    .expire(key, env.JOB_TTL_SECONDS)
+    .sadd(RedisKeys.waitingUsers, userId)
+    .zrank(key, jobId)
+    .exec();
+  const rank = results?.[3]?.[1] as number | null | undefined;
+  return rank ?? 0;
+};
+
+// Stop tracking a job that started or left the queue. Safe to call twice.
+export const leaveFairQueue = async (
+  userId: string,
+  jobId: string,
+): Promise<void> => {
+  await redis.eval(
+    LEAVE_SCRIPT,
+    2,
+    RedisKeys.userWaitingJobs(userId),
+    RedisKeys.waitingUsers,
+    jobId,
+    userId,
+  );
+};
+
+// Users with waiting jobs, deepest backlog first
+export const getUserQueueDepths = async (): Promise<UserQueueDepth[]> => {
+  const raw = (await redis.eval(
+    DEPTHS_SCRIPT,
+    1,
+    RedisKeys.waitingUsers,
+    RedisKeys.userWaitingJobs(""),
+  )) as (string | number)[];
+
+  const depths: UserQueueDepth[] = [];
+  for (let i = 0; i < raw.length; i += 2) {
+    depths.push({ userId: String(raw[i]), waiting: Number(raw[i + 1]) });
+  }
+  return depths.sort((a, b) => b.waiting - a.waiting);
+};
@@ -0,0 +1,123 @@
+/**
+ * Download Job Errors
+ *
+ * Typed failures of the download worker. Each carries a machine-readable
+ * errorCode that is stored on the job and sent to clients (status, SSE,
+ * webhooks), so they can react without parsing messages.
+ *
+ * Permanent failures extend BullMQ's UnrecoverableError and fail the job
+ * without automatic retries; transient ones are retried according to their
+ * error code's retry policy (lib/retry-policy.ts).
+ */
+import { UnrecoverableError } from "bullmq";
+import type { JobErrorCode } from "../config/env.ts";
+import { JOB_ERROR_CODES } from "../config/env.ts";
+
+// ============ Permanent ============
+
+// The requested file does not exist in storage
+export class FileNotFoundError extends UnrecoverableError {
+  readonly errorCode = "not_found";
+
+  constructor(fileId: number) {
+    super(`File not found in storage: file_id=${fileId.toString()}`);
+    this.name = "FileNotFoundError";
+  }
+}
+
+// Thrown when a job is cancelled mid-flight
+export class JobCancelledError extends UnrecoverableError {
+  readonly errorCode = "cancelled";
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+// ============ Transient ============
+
+// Storage could not be reached or answered with an error
+export class StorageUnavailableError extends Error {
+  readonly errorCode = "storage_unavailable";
+
+  constructor(cause: unknown) {
+    super(
+      `Storage unavailable: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.name = "StorageUnavailableError";
+  }
+}
+
+// Storage asked us to slow down (S3 SlowDown, 429)
+export class StorageThrottledError extends Error {
+  readonly errorCode = "storage_throttled";
+
+  constructor(cause: unknown) {
+    super("Storage is throttling requests", { cause });
+    this.name = "StorageThrottledError";
+  }
+}
+
+// An operation gave up waiting
+export class JobTimeoutError extends Error {
+  readonly errorCode = "timeout";
+
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = "JobTimeoutError";
+  }
+}
+
+// ============ Classification ============
+
+const isJobErrorCode = (value: unknown): value is JobErrorCode =>
+  JOB_ERROR_CODES.includes(value as JobErrorCode);
+
+// Code of a failure; anything unclassified is "internal"
+export const getJobErrorCode = (err: Error): JobErrorCode => {
+  const { errorCode } = err as { errorCode?: unknown };
+  return isJobErrorCode(errorCode) ? errorCode : "internal";
+};
+
+// Whether BullMQ will give up on the job instead of retrying it
+export const isPermanentJobError = (err: Error): boolean =>
+  err instanceof UnrecoverableError;
+
+// Names/codes the AWS SDK and Node use for timed-out requests
+const TIMEOUT_ERRORS = new Set([
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+]);
+
+// Names the AWS SDK uses for throttled requests
+const THROTTLING_ERRORS = new Set([
+  "SlowDown",
+  "Throttling",
+  "ThrottlingException",
+  "TooManyRequestsException",
+  "RequestLimitExceeded",
+]);
+
+// Wrap an error thrown by a storage call in its job error
+export const toStorageError = (err: unknown): Error => {
+  const { name, code, $metadata } = (err ?? {}) as {
+    name?: unknown;
+    code?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+  if (TIMEOUT_ERRORS.has(String(name)) || TIMEOUT_ERRORS.has(String(code))) {
+    return new JobTimeoutError("Storage request timed out", err);
+  }
+  if (
+    THROTTLING_ERRORS.has(String(name)) ||
+    $metadata?.httpStatusCode === 429
+  ) {
+    return new StorageThrottledError(err);
+  }
+  return new StorageUnavailableError(err);
+};
@@ -0,0 +1,171 @@
+/**
+ * Prometheus Metrics
+ *
+ * One registry per process. The API serves it on GET /metrics, the worker
+ * on its own listener (WORKER_METRICS_PORT). Series carry a `service` label
+ * so both can be scraped into the same job.
+ */
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { getUserQueueDepths } from "./fair-queue.ts";
+import { getPubSubStats } from "./pubsub.ts";
+import { getDeadLetterCount, getQueueStats } from "./queue.ts";
+
+export const metricsRegistry = new Registry();
+
+// Call once at process start
+export const initMetrics = (service: "api" | "worker"): void => {
+  metricsRegistry.setDefaultLabels({ service });
+  collectDefaultMetrics({ register: metricsRegistry });
+};
+
+// ============ HTTP ============
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency (time to response headers for SSE)",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+// ============ Jobs ============
+
+export const jobQueueWaitSeconds = new Histogram({
+  name: "download_job_queue_wait_seconds",
+  help: "Time from enqueue until a worker first picks the job up",
+  labelNames: ["priority"] as const,
+  buckets: [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600, 1800],
+  registers: [metricsRegistry],
+});
+
+export const jobProcessingSeconds = new Histogram({
+  name: "download_job_processing_seconds",
+  help: "Time a worker spent on one attempt of a job",
+  labelNames: ["outcome"] as const,
+  buckets: [1, 5, 10, 30, 60, 120, 180, 300, 600],
+  registers: [metricsRegistry],
+});
+
+export const jobsCompletedTotal = new Counter({
+  name: "download_jobs_completed_total",
+  help: "Jobs that completed successfully",
+  registers: [metricsRegistry],
+});
+
+export const jobsFailedTotal = new Counter({
+  name: "download_jobs_failed_total",
+  help: "Jobs that failed after exhausting automatic retries",
+  registers: [metricsRegistry],
+});
+
+export const jobsRetriedTotal = new Counter({
+  name: "download_jobs_retried_total",
+  help: "Job retries: auto (worker backoff), manual (retry endpoint) or dead_letter (admin replay)",
+  labelNames: ["trigger"] as const,
+  registers: [metricsRegistry],
+});
+
+// ============ API-only Gauges ============
+
+// SSE and queue gauges are read at scrape time; registered by the API only
+// so the worker doesn't export duplicate queue series
+export const registerApiGauges = (): void => {
+  new Gauge({
+    name: "sse_active_connections",
+    help: "Open SSE connections on this API process",
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getPubSubStats().sseConnections);
+    },
+  });
+
+  new Gauge({
+    name: "sse_subscribed_channels",
+    help: "Redis pub/sub channels subscribed by this API process",
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getPubSubStats().channels);
+    },
+  });
+
+  new Gauge({
+    name: "sse_fanout_latency_avg_seconds",
+    help: "Average in-process fan-out time of one pub/sub message to its SSE streams",
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getPubSubStats().fanoutLatencyMs.avg / 1000);
+    },
+  });
+
+  new Gauge({
+    name: "sse_fanout_latency_max_seconds",
+    help: "Slowest in-process fan-out of one pub/sub message to its SSE streams",
+    registers: [metricsRegistry],
+    collect() {
+      this.set(getPubSubStats().fanoutLatencyMs.max / 1000);
+    },
+  });
+
+  new Gauge({
+    name: "download_queue_jobs",
+    help: "BullMQ download queue job counts by state",
+    labelNames: ["state"] as const,
+    registers: [metricsRegistry],
+    async collect() {
+      const stats = await getQueueStats();
+      for (const [state, count] of Object.entries(stats)) {
+        this.set({ state }, count);
+      }
+    },
+  });
+
+  new Gauge({
+    name: "download_dead_letter_jobs",
+    help: "Failed download jobs waiting in the dead-letter queue",
+    registers: [metricsRegistry],
+    async collect() {
+      this.set(await getDeadLetterCount());
+    },
+  });
+
+  new Gauge({
+    name: "download_queue_waiting_users",
+    help: "Users with at least one download job waiting to start",
+    registers: [metricsRegistry],
+    async collect() {
+      this.set((await getUserQueueDepths()).length);
+    },
+  });
+};
+
+// Standalone /metrics listener for processes without an HTTP server
+export const startMetricsServer = (port: number): Server => {
+  const server = createServer((req, res) => {
+    if (req.url !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    metricsRegistry
+      .metrics()
+      .then((body) => {
+        res.writeHead(200, { "Content-Type": metricsRegistry.contentType });
+        res.end(body);
+      })
+      .catch((err: unknown) => {
+        console.error("[Metrics] Failed to collect metrics:", err);
+        res.writeHead(500).end();
+      });
+  });
+  server.listen(port, () => {
+    console.log(`[Metrics] Listening on :${port.toString()}/metrics`);
+  });
+  return server;
+};
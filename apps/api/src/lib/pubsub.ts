@@ -0,0 +1,162 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-redundant-type-constituents */
+/**
+ * Shared Redis Subscriber
+ *
+ * One pub/sub connection per API process. SSE streams register listeners
+ * here instead of opening their own connection; channels are reference
+ * counted and unsubscribed when the last listener leaves.
+ *
+ * Note: ESLint rules are disabled for this file due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type Redis from "ioredis";
+import { createBullMQConnection } from "./redis.ts";
+
+export type MessageListener = (message: string) => void;
+
+// Counters for /health/queue and metrics
+export interface PubSubStats {
+  sseConnections: number;
+  channels: number;
+  listeners: number;
+  messages: number;
+  fanoutLatencyMs: {
+    avg: number;
+    max: number;
+  };
+}
+
+// Listeners per channel - the set size is the channel's reference count.
+// `ready` settles when Redis confirmed the SUBSCRIBE.
+interface ChannelEntry {
+  listeners: Set<MessageListener>;
+  ready: Promise<unknown>;
+}
+const channels = new Map<string, ChannelEntry>();
+
+let subscriber: Redis | null = null;
+let sseConnections = 0;
+let messageCount = 0;
+let fanoutTotalMs = 0;
+let fanoutMaxMs = 0;
+
+// Deliver a message to every listener on its channel
+const dispatch = (channel: string, message: string): void => {
+  const entry = channels.get(channel);
+  if (!entry) return;
+
+  const startTime = performance.now();
+  // Copy so listeners may unsubscribe while being called
+  for (const listener of [...entry.listeners]) {
+    try {
+      listener(message);
+    } catch (err) {
+      console.error(`[PubSub] Listener for ${channel} threw:`, err);
+    }
+  }
+  const elapsedMs = performance.now() - startTime;
+
+  messageCount++;
+  fanoutTotalMs += elapsedMs;
+  fanoutMaxMs = Math.max(fanoutMaxMs, elapsedMs);
+};
+
+const getSubscriber = (): Redis => {
+  if (!subscriber) {
+    subscriber = createBullMQConnection();
+    subscriber.on("message", dispatch);
+    // ioredis re-subscribes to every channel after a reconnect
+    subscriber.on("error", (err: Error) => {
+      console.error("[PubSub] Subscriber error:", err.message);
+    });
+  }
+  return subscriber;
+};
+
+// Listen on a channel. Resolves once Redis confirmed the subscription;
+// the returned function removes the listener and is safe to call twice.
+export const subscribeChannel = async (
+  channel: string,
+  listener: MessageListener,
+): Promise<() => void> => {
+  let found = channels.get(channel);
+  if (!found) {
+    const created: ChannelEntry = {
+      listeners: new Set(),
+      ready: getSubscriber().subscribe(channel),
+    };
+    // A failed SUBSCRIBE must not stay cached: the next subscriber retries
+    created.ready.catch(() => {
+      if (channels.get(channel) === created) channels.delete(channel);
+    });
+    channels.set(channel, created);
+    found = created;
+  }
+  const entry = found;
+  entry.listeners.add(listener);
+
+  let active = true;
+  const unsubscribe = () => {
+    if (!active) return;
+    active = false;
+
+    entry.listeners.delete(listener);
+    // Entry was dropped after a failed SUBSCRIBE (or replaced since)
+    if (channels.get(channel) !== entry) return;
+    if (entry.listeners.size === 0) {
+      channels.delete(channel);
+      // Commands on one connection run in order, so a SUBSCRIBE issued
+      // after this for the same channel still wins
+      getSubscriber()
+        .unsubscribe(channel)
+        .catch((err: unknown) => {
+          console.error(`[PubSub] Failed to unsubscribe ${channel}:`, err);
+        });
+    }
+  };
+
+  try {
+    await entry.ready;
+  } catch (err) {
+    unsubscribe();
+    throw err;
+  }
+  return unsubscribe;
+};
+
+// Count an open SSE connection; call the returned function when it closes
+export const trackSSEConnection = (): (() => void) => {
+  sseConnections++;
+  let open = true;
+  return () => {
+    if (!open) return;
+    open = false;
+    sseConnections--;
+  };
+};
+
+export const getPubSubStats = (): PubSubStats => {
+  let listenerCount = 0;
+  for (const entry of channels.values()) {
+    listenerCount += entry.listeners.size;
+  }
+  return {
+    sseConnections,
+    channels: channels.size,
+    listeners: listenerCount,
+    messages: messageCount,
+    fanoutLatencyMs: {
+      avg: messageCount === 0 ? 0 : fanoutTotalMs / messageCount,
+      max: fanoutMaxMs,
+    },
+  };
+};
+
+// Graceful shutdown
+export const closePubSub = async (): Promise<void> => {
+  channels.clear();
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+  }
+};
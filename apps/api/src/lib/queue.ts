@@ -5,13 +5,38 @@
  * Note: ESLint rules are disabled for some operations due to ioredis type definitions
  * not being fully compatible with strict TypeScript settings.
  */
+import type { Job } from "bullmq";
 import { Queue, QueueEvents } from "bullmq";
 import type Redis from "ioredis";
-import { env } from "../config/env.ts";
+import type {
+  ArchiveFormat,
+  JobErrorCode,
+  JobPriority,
+} from "../config/env.ts";
+import { env, JOB_PRIORITIES } from "../config/env.ts";
+import {
+  enterFairQueue,
+  FAIR_DEPTH_LEVELS,
+  leaveFairQueue,
+} from "./fair-queue.ts";
 import { createBullMQConnection } from "./redis.ts";
+import type { AppliedRetryPolicy } from "./retry-policy.ts";
+import { MAX_JOB_ATTEMPTS, RETRY_POLICY_BACKOFF } from "./retry-policy.ts";
 
-// Queue name constant
+// Queue name constants
 export const DOWNLOAD_QUEUE_NAME = "downloads";
+export const MAINTENANCE_QUEUE_NAME = "maintenance";
+export const WEBHOOK_QUEUE_NAME = "webhooks";
+export const DEAD_LETTER_QUEUE_NAME = "downloads-dead";
+
+// BullMQ priority (lower runs first) for a lane and the number of the owner's
+// jobs waiting ahead. Lanes are bands of FAIR_DEPTH_LEVELS priorities, so a
+// higher lane always wins and users take turns within a lane. Every job gets
+// one: BullMQ runs jobs without a priority ahead of all prioritized jobs.
+const getJobPriority = (lane: JobPriority, depth: number): number =>
+  1 +
+  JOB_PRIORITIES.indexOf(lane) * FAIR_DEPTH_LEVELS +
+  Math.min(depth, FAIR_DEPTH_LEVELS - 1);
 
 // Create Redis connection for queue
 const queueConnection: Redis = createBullMQConnection();
@@ -20,11 +45,9 @@ const queueConnection: Redis = createBullMQConnection();
 export const downloadQueue: Queue = new Queue(DOWNLOAD_QUEUE_NAME, {
   connection: queueConnection,
   defaultJobOptions: {
-    attempts: env.JOB_MAX_ATTEMPTS,
-    backoff: {
-      type: "exponential",
-      delay: env.JOB_BACKOFF_DELAY_MS,
-    },
+    // Per-error-code attempts and delays come from the retry policies
+    attempts: MAX_JOB_ATTEMPTS,
+    backoff: { type: RETRY_POLICY_BACKOFF },
     removeOnComplete: {
       age: env.JOB_TTL_SECONDS,
       count: 1000,
@@ -36,6 +59,41 @@ export const downloadQueue: Queue = new Queue(DOWNLOAD_QUEUE_NAME, {
   },
 });
 
+// Maintenance queue for scheduled housekeeping (reconciliation)
+export const maintenanceQueue: Queue = new Queue(MAINTENANCE_QUEUE_NAME, {
+  connection: queueConnection,
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: { count: 50 },
+    removeOnFail: { count: 50 },
+  },
+});
+
+// Webhook queue - each delivery retries with its own backoff, independent
+// of the download job that triggered it
+export const webhookQueue: Queue = new Queue(WEBHOOK_QUEUE_NAME, {
+  connection: queueConnection,
+  defaultJobOptions: {
+    attempts: env.WEBHOOK_MAX_ATTEMPTS,
+    backoff: {
+      type: "exponential",
+      delay: env.WEBHOOK_BACKOFF_DELAY_MS,
+    },
+    removeOnComplete: { age: env.JOB_TTL_SECONDS, count: 1000 },
+    removeOnFail: { age: env.JOB_TTL_SECONDS, count: 5000 },
+  },
+});
+
+// Dead-letter queue - download jobs that failed for good. No worker consumes
+// it: entries wait until an admin replays or purges them.
+export const deadLetterQueue: Queue = new Queue(DEAD_LETTER_QUEUE_NAME, {
+  connection: queueConnection,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: true,
+  },
+});
+
 // Queue events for monitoring
 export const downloadQueueEvents: QueueEvents = new QueueEvents(
   DOWNLOAD_QUEUE_NAME,
@@ -50,19 +108,232 @@ export interface DownloadJobData {
   fileId: number;
   userId: string;
   idempotencyKey?: string;
+  priority?: JobPriority; // Unset on jobs enqueued before priority lanes
+  runAt?: number; // Not-before time of a scheduled job
+  // Take a concurrency slot when a worker starts the job (scheduled jobs,
+  // which hold none while they wait)
+  admitOnStart?: boolean;
   createdAt: number;
+  // Attempts made by earlier runs of this job (manual retries)
+  previousAttempts?: number;
+}
+
+// Dead-lettered download job (deadLetterQueue jobId is the download jobId)
+export interface DeadLetterJobData extends DownloadJobData {
+  priority: JobPriority;
+  callbackUrl: string | null;
+  archive?: { format: ArchiveFormat; fileIds: number[] }; // Archive jobs only
+  batchId?: string; // Batch files only
+  errorCode: JobErrorCode;
+  error: string;
+  permanent: boolean; // Failed without using its retries
+  attempts: number;
+  errors: {
+    attempt: number | null;
+    errorCode: JobErrorCode;
+    error: string;
+    failedAt: number;
+  }[];
+  stacktrace: string | null; // Of the last attempt
+  retryPolicy: AppliedRetryPolicy;
+  deadLetteredAt: number;
+}
+
+// Webhook delivery data - the payload is fixed when the job finishes so
+// every attempt sends the same body
+export interface WebhookDeliveryData {
+  deliveryId: string;
+  jobId: string;
+  url: string;
+  payload: string;
 }
 
-// Add job to queue
+// Add job to queue. Scheduled jobs wait as BullMQ delayed jobs until runAt.
+// They have no turn in the per-user rotation yet, so they take the lane's
+// last position and run behind jobs queued for right away.
 export const addDownloadJob = async (data: DownloadJobData): Promise<void> => {
+  const priority = data.priority ?? env.JOB_PRIORITY_DEFAULT;
+  const delay =
+    data.runAt === undefined ? 0 : Math.max(0, data.runAt - Date.now());
+  const depth =
+    delay > 0
+      ? FAIR_DEPTH_LEVELS - 1
+      : await enterFairQueue(data.userId, data.jobId);
   await downloadQueue.add("download", data, {
     jobId: data.jobId, // Use our jobId as BullMQ jobId for easy lookup
+    priority: getJobPriority(priority, depth),
+    delay,
+  });
+  console.log(
+    `[Queue] Added job ${data.jobId} for file_id=${data.fileId.toString()} to the ${priority} lane (user depth ${depth.toString()})${delay > 0 ? `, starting in ${Math.ceil(delay / 1000).toString()}s` : ""}`,
+  );
+};
+
+// Get the BullMQ state of a job, or null if it was already pruned
+export const getDownloadJobState = async (
+  jobId: string,
+): Promise<string | null> => {
+  const job = await downloadQueue.getJob(jobId);
+  if (!job) return null;
+  return await job.getState();
+};
+
+// Jobs ahead of a waiting job in the order workers take them, or null if the
+// job isn't waiting (scheduled, delayed for a retry, active or gone).
+// Jobs without a priority run before all prioritized ones.
+export const getWaitingPosition = async (
+  jobId: string,
+): Promise<number | null> => {
+  const client = await downloadQueue.client;
+  const [rank, unprioritized] = await Promise.all([
+    client.zrank(downloadQueue.keys.prioritized, jobId),
+    client.llen(downloadQueue.keys.wait),
+  ]);
+  return rank === null ? null : unprioritized + rank;
+};
+
+// Download jobs workers are processing right now
+export const getActiveDownloadCount = async (): Promise<number> =>
+  await downloadQueue.getActiveCount();
+
+// Re-enqueue a finished job under the same jobId.
+// BullMQ ignores adds for an existing id, so the old entry is removed first.
+export const requeueDownloadJob = async (
+  data: DownloadJobData,
+): Promise<void> => {
+  const existing = await downloadQueue.getJob(data.jobId);
+  if (existing) {
+    await existing.remove();
+  }
+  await addDownloadJob(data);
+};
+
+// Remove a job unless a worker already started it
+const removeIfNotStarted = async (job: Job): Promise<boolean> => {
+  const state = await job.getState();
+  if (state !== "waiting" && state !== "delayed" && state !== "prioritized") {
+    return false;
+  }
+
+  try {
+    await job.remove();
+  } catch (error) {
+    // Job was picked up by a worker between the state check and removal
+    console.warn(`[Queue] Could not remove job ${job.id ?? ""}:`, error);
+    return false;
+  }
+
+  const { jobId, userId } = job.data as DownloadJobData;
+  await leaveFairQueue(userId, jobId);
+  return true;
+};
+
+// Remove a job that has not started yet from the queue.
+// Returns false if the job is already active or gone - an active job
+// is stopped by the worker when it sees the cancellation flag.
+export const removeQueuedDownloadJob = async (
+  jobId: string,
+): Promise<boolean> => {
+  const job = await downloadQueue.getJob(jobId);
+  if (!job || !(await removeIfNotStarted(job))) return false;
+
+  console.log(`[Queue] Removed job ${jobId} from queue`);
+  return true;
+};
+
+// Move a job that has not started yet to a new start time (null runs it as
+// soon as possible). Returns false if the job is already active or gone.
+// With admitOnStart the job takes its concurrency slot when it starts; a job
+// that was already waiting for one keeps waiting for it.
+export const rescheduleDownloadJob = async (
+  jobId: string,
+  runAt: number | null,
+  admitOnStart: boolean,
+): Promise<boolean> => {
+  const job = await downloadQueue.getJob(jobId);
+  if (!job || !(await removeIfNotStarted(job))) return false;
+
+  const data = job.data as DownloadJobData;
+  await addDownloadJob({
+    ...data,
+    runAt: runAt ?? undefined,
+    admitOnStart: data.admitOnStart === true || admitOnStart,
   });
+  return true;
+};
+
+// Move a failed download job to the dead-letter queue, replacing an older
+// entry for the same job
+export const addDeadLetterJob = async (
+  data: DeadLetterJobData,
+): Promise<void> => {
+  await removeDeadLetterJob(data.jobId);
+  await deadLetterQueue.add("dead", data, { jobId: data.jobId });
   console.log(
-    `[Queue] Added job ${data.jobId} for file_id=${data.fileId.toString()} to queue`,
+    `[Queue] Dead-lettered job ${data.jobId} (${data.errorCode}, ${data.attempts.toString()} attempts)`,
   );
 };
 
+// Dead-lettered jobs at positions start..end (inclusive), oldest first.
+// Nothing consumes the queue, so its order is the dead-lettering order.
+export const getDeadLetterJobs = async (
+  start: number,
+  end: number,
+): Promise<DeadLetterJobData[]> => {
+  const jobs = await deadLetterQueue.getWaiting(start, end);
+  return jobs.map((job) => job.data as DeadLetterJobData);
+};
+
+export const getDeadLetterJob = async (
+  jobId: string,
+): Promise<DeadLetterJobData | null> => {
+  const job = await deadLetterQueue.getJob(jobId);
+  return job ? (job.data as DeadLetterJobData) : null;
+};
+
+// Drop a dead-letter entry; false if it was already gone
+export const removeDeadLetterJob = async (jobId: string): Promise<boolean> => {
+  const job = await deadLetterQueue.getJob(jobId);
+  if (!job) return false;
+  await job.remove();
+  return true;
+};
+
+export const getDeadLetterCount = async (): Promise<number> =>
+  await deadLetterQueue.getWaitingCount();
+
+// Enqueue a webhook delivery (deliveryId doubles as the BullMQ jobId)
+export const addWebhookDelivery = async (
+  data: WebhookDeliveryData,
+): Promise<void> => {
+  await webhookQueue.add("deliver", data, { jobId: data.deliveryId });
+  console.log(
+    `[Queue] Added webhook delivery ${data.deliveryId} for job ${data.jobId}`,
+  );
+};
+
+// Register the repeatable reconciliation job (idempotent across restarts)
+export const scheduleReconciliation = async (): Promise<void> => {
+  if (env.RECONCILE_INTERVAL_MS === 0) {
+    await maintenanceQueue.removeJobScheduler("reconcile");
+    return;
+  }
+  await maintenanceQueue.upsertJobScheduler(
+    "reconcile",
+    { every: env.RECONCILE_INTERVAL_MS },
+    { name: "reconcile" },
+  );
+  console.log(
+    `[Queue] Reconciliation scheduled every ${(env.RECONCILE_INTERVAL_MS / 1000).toString()}s`,
+  );
+};
+
+// Trigger an on-demand reconciliation run
+export const enqueueReconciliation = async (): Promise<string> => {
+  const job = await maintenanceQueue.add("reconcile", {});
+  return job.id ?? "";
+};
+
 // Queue health check
 export const checkQueueHealth = async (): Promise<boolean> => {
   try {
@@ -84,7 +355,8 @@ export const getQueueStats = async (): Promise<{
 }> => {
   const counts = await downloadQueue.getJobCounts();
   return {
-    waiting: counts.waiting,
+    // Jobs with a priority wait in the "prioritized" state
+    waiting: counts.waiting + counts.prioritized,
     active: counts.active,
     completed: counts.completed,
     failed: counts.failed,
@@ -92,9 +364,33 @@ export const getQueueStats = async (): Promise<{
   };
 };
 
+// Jobs waiting in each priority lane (summed over the lane's priority band)
+export const getLaneWaitingCounts = async (): Promise<
+  Record<JobPriority, number>
+> => {
+  const bands = JOB_PRIORITIES.map((lane) =>
+    Array.from({ length: FAIR_DEPTH_LEVELS }, (_, depth) =>
+      getJobPriority(lane, depth),
+    ),
+  );
+  const counts = await downloadQueue.getCountsPerPriority(bands.flat());
+  return Object.fromEntries(
+    JOB_PRIORITIES.map((lane, i) => [
+      lane,
+      (bands[i] ?? []).reduce(
+        (sum, priority) => sum + (counts[priority.toString()] ?? 0),
+        0,
+      ),
+    ]),
+  ) as Record<JobPriority, number>;
+};
+
 // Graceful shutdown
 export const closeQueue = async (): Promise<void> => {
   await downloadQueue.close();
+  await maintenanceQueue.close();
+  await webhookQueue.close();
+  await deadLetterQueue.close();
   await downloadQueueEvents.close();
   await queueConnection.quit();
   console.log("[Queue] Closed successfully");
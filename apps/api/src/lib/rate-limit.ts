@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Redis Rate Limit Store
+ *
+ * Store for hono-rate-limiter shared by every API replica. Uses a sliding
+ * window counter: hits are counted per fixed window, and the previous
+ * window's count is weighted by how much of it still overlaps the sliding
+ * window. Two small keys per client, no per-request entries.
+ *
+ * Note: ESLint rules are disabled for this file due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type { ClientRateLimitInfo, Store } from "hono-rate-limiter";
+import { redis, RedisKeys } from "./redis.ts";
+
+// Count a hit in the current window and read the previous one.
+// Keys live for two windows so the previous count is still there.
+const INCREMENT_SCRIPT = `
+local current = redis.call("INCR", KEYS[1])
+if current == 1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1] * 2)
+end
+local previous = tonumber(redis.call("GET", KEYS[2]) or "0")
+return {current, previous}
+`;
+
+// Undo a hit without creating a key or going below zero
+const DECREMENT_SCRIPT = `
+if tonumber(redis.call("GET", KEYS[1]) or "0") > 0 then
+  redis.call("DECR", KEYS[1])
+end
+`;
+
+export const createRedisRateLimitStore = (): Store => {
+  let windowMs = 60000;
+
+  const getWindow = (now: number) => {
+    const index = Math.floor(now / windowMs);
+    return { index, start: index * windowMs };
+  };
+
+  return {
+    localKeys: false,
+    prefix: "ratelimit:",
+
+    init: (options) => {
+      windowMs = options.windowMs;
+    },
+
+    increment: async (key): Promise<ClientRateLimitInfo> => {
+      const now = Date.now();
+      const window = getWindow(now);
+      const resetTime = new Date(window.start + windowMs);
+
+      try {
+        const [current, previous] = (await redis.eval(
+          INCREMENT_SCRIPT,
+          2,
+          RedisKeys.rateLimit(key, window.index),
+          RedisKeys.rateLimit(key, window.index - 1),
+          windowMs,
+        )) as [number, number];
+
+        const overlap = 1 - (now - window.start) / windowMs;
+        return {
+          totalHits: current + Math.floor(previous * overlap),
+          resetTime,
+        };
+      } catch (err) {
+        // Fail open - an unavailable Redis should not take the API down
+        console.error("[RateLimit] Failed to count request:", err);
+        return { totalHits: 0, resetTime };
+      }
+    },
+
+    decrement: async (key) => {
+      const window = getWindow(Date.now());
+      await redis.eval(
+        DECREMENT_SCRIPT,
+        1,
+        RedisKeys.rateLimit(key, window.index),
+      );
+    },
+
+    resetKey: async (key) => {
+      const window = getWindow(Date.now());
+      await redis.del(
+        RedisKeys.rateLimit(key, window.index),
+        RedisKeys.rateLimit(key, window.index - 1),
+      );
+    },
+  };
+};
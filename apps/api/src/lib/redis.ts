@@ -48,10 +48,33 @@ export const checkRedisHealth = async (): Promise<boolean> => {
 // Redis key prefixes
 export const RedisKeys = {
   job: (jobId: string) => `job:${jobId}`,
-  idempotency: (key: string) => `idempotency:${key}`,
-  userActiveJobs: (userId: string) => `user:${userId}:active`,
+  idempotency: (userId: string, key: string) =>
+    `idempotency-key:${userId}:${key}`,
+  userActiveJobs: (userId: string) => `user:${userId}:active-jobs`,
+  userJobs: (userId: string) => `user:${userId}:jobs`,
+  userJobsByStatus: (userId: string, status: string) =>
+    `user:${userId}:jobs:${status}`,
   jobsProcessing: "jobs:processing",
   jobUpdates: (jobId: string) => `job:updates:${jobId}`,
+  jobEvents: (jobId: string) => `job:events:${jobId}`,
+  jobErrors: (jobId: string) => `job:errors:${jobId}`,
+  batch: (batchId: string) => `batch:${batchId}`,
+  batchJobs: (batchId: string) => `batch:${batchId}:jobs`,
+  batchUpdates: (batchId: string) => `batch:updates:${batchId}`,
+  cancelRequested: (jobId: string) => `cancel:${jobId}`,
+  watchdogStats: "watchdog:stats",
+  watchdogLock: "watchdog:lock",
+  reconcileReport: "reconcile:report",
+  apiKey: (keyHash: string) => `apikey:${keyHash}`,
+  auditJobAccess: "audit:job-access",
+  webhookDeliveries: (jobId: string) => `webhook:deliveries:${jobId}`,
+  laneWaits: (lane: string) => `queue:lane-waits:${lane}`,
+  jobDurations: "queue:job-durations",
+  userWaitingJobs: (userId: string) => `queue:user-waiting:${userId}`,
+  waitingUsers: "queue:waiting-users",
+  deadLetterReplayLock: (jobId: string) => `dead-letter:replay:${jobId}`,
+  rateLimit: (clientKey: string, window: number) =>
+    `ratelimit:${clientKey}:${window.toString()}`,
 } as const;
 
 // Graceful shutdown
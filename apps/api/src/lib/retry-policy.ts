@@ -0,0 +1,98 @@
+/**
+ * Retry Policies
+ *
+ * Decides how a failed download job is retried from the error code of the
+ * failure. Codes listed in RETRY_POLICIES use that policy; the rest retry
+ * JOB_MAX_ATTEMPTS times with exponential JOB_BACKOFF_DELAY_MS backoff.
+ * Permanent codes (not_found, cancelled) never retry: their errors are
+ * unrecoverable, so BullMQ doesn't consult a policy for them.
+ *
+ * Download jobs carry the RETRY_POLICY_BACKOFF backoff type, which makes
+ * BullMQ call the worker's custom strategy (retryPolicyBackoffStrategy).
+ */
+import type { JobErrorCode, RetryPolicy } from "../config/env.ts";
+import { env, JOB_ERROR_CODES } from "../config/env.ts";
+import { getJobErrorCode } from "./job-errors.ts";
+
+// Backoff type of download jobs, resolved by the worker's backoffStrategy
+export const RETRY_POLICY_BACKOFF = "retry-policy";
+
+// Retry policy of one error code, as recorded on failed jobs
+export interface AppliedRetryPolicy extends RetryPolicy {
+  errorCode: JobErrorCode;
+}
+
+const NO_RETRY: RetryPolicy = {
+  backoff: "none",
+  maxAttempts: 1,
+  delayMs: 0,
+  jitter: 0,
+};
+
+const DEFAULT_POLICY: RetryPolicy = {
+  backoff: "exponential",
+  maxAttempts: env.JOB_MAX_ATTEMPTS,
+  delayMs: env.JOB_BACKOFF_DELAY_MS,
+  jitter: 0,
+};
+
+// Built-in policy of a code when RETRY_POLICIES doesn't list it
+const getDefaultPolicy = (errorCode: JobErrorCode): RetryPolicy => {
+  switch (errorCode) {
+    case "not_found":
+    case "cancelled":
+      return NO_RETRY;
+    case "storage_throttled":
+      // Spread retries out so throttled workers don't come back in lockstep
+      return { ...DEFAULT_POLICY, jitter: 0.5 };
+    default:
+      return DEFAULT_POLICY;
+  }
+};
+
+const RETRY_POLICIES = Object.fromEntries(
+  JOB_ERROR_CODES.map((errorCode) => [
+    errorCode,
+    env.RETRY_POLICIES[errorCode] ?? getDefaultPolicy(errorCode),
+  ]),
+) as Record<JobErrorCode, RetryPolicy>;
+
+// Attempts set on every download job; each policy stops earlier on its own
+export const MAX_JOB_ATTEMPTS = Math.max(
+  ...Object.values(RETRY_POLICIES).map((policy) => policy.maxAttempts),
+);
+
+export const getRetryPolicy = (
+  errorCode: JobErrorCode,
+): AppliedRetryPolicy => ({ errorCode, ...RETRY_POLICIES[errorCode] });
+
+// Whether a policy allows another attempt after `attemptsMade` attempts
+export const allowsRetry = (
+  policy: RetryPolicy,
+  attemptsMade: number,
+): boolean => policy.backoff !== "none" && attemptsMade < policy.maxAttempts;
+
+// Delay before the next attempt, or -1 to stop retrying
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attemptsMade: number,
+): number => {
+  if (!allowsRetry(policy, attemptsMade)) return -1;
+  const delay =
+    policy.backoff === "fixed"
+      ? policy.delayMs
+      : Math.pow(2, attemptsMade - 1) * policy.delayMs;
+  // Jitter takes up to that fraction off the delay
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+};
+
+// BullMQ backoff strategy: the policy of the error the attempt failed with
+export const retryPolicyBackoffStrategy = (
+  attemptsMade: number,
+  _type?: string,
+  err?: Error,
+): number =>
+  getRetryDelay(
+    getRetryPolicy(err ? getJobErrorCode(err) : "internal"),
+    attemptsMade,
+  );
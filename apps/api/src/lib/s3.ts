@@ -1,10 +1,20 @@
 import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
   GetObjectCommand,
   HeadObjectCommand,
   S3Client,
+  UploadPartCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "node:stream";
+import type { ArchiveFormat } from "../config/env.ts";
 import { env } from "../config/env.ts";
+import { ARCHIVE_EXTENSIONS } from "./archive.ts";
+
+// Size of each multipart upload part (S3 requires at least 5 MiB but the last)
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
 
 // S3 Client configuration
 export const s3Client = new S3Client({
@@ -26,6 +36,10 @@ export const sanitizeS3Key = (fileId: number): string => {
   return `downloads/${String(sanitizedId)}.zip`;
 };
 
+// Key of an archive job's output; jobIds are server-generated UUIDs
+export const getExportKey = (jobId: string, format: ArchiveFormat): string =>
+  `exports/${jobId.replace(/[^a-zA-Z0-9-]/g, "")}.${ARCHIVE_EXTENSIONS[format]}`;
+
 // S3 health check
 export const checkS3Health = async (): Promise<boolean> => {
   if (!env.S3_BUCKET_NAME) return true; // Mock mode
@@ -37,12 +51,32 @@ export const checkS3Health = async (): Promise<boolean> => {
     await s3Client.send(command);
     return true;
   } catch (err) {
-    if (err instanceof Error && err.name === "NotFound") return true;
+    return isNotFoundError(err);
+  }
+};
+
+// HeadObject reports a missing key as NotFound (404)
+const isNotFoundError = (err: unknown): boolean =>
+  err instanceof Error && err.name === "NotFound";
+
+// Whether an object exists, e.g. an archive job's export. Mock mode mocks
+// every upload, so every key exists. Errors other than a missing key are
+// thrown.
+export const checkS3KeyExists = async (s3Key: string): Promise<boolean> => {
+  if (!env.S3_BUCKET_NAME) return true;
+  try {
+    await s3Client.send(
+      new HeadObjectCommand({ Bucket: env.S3_BUCKET_NAME, Key: s3Key }),
+    );
+    return true;
+  } catch (err) {
+    if (!isNotFoundError(err)) throw err;
     return false;
   }
 };
 
-// S3 file availability check
+// S3 file availability check. Errors other than a missing key (outages,
+// timeouts, access denied) are thrown, not reported as unavailable.
 export const checkS3Availability = async (
   fileId: number,
 ): Promise<{
@@ -73,7 +107,8 @@ export const checkS3Availability = async (
       s3Key,
       size: response.ContentLength ?? null,
     };
-  } catch {
+  } catch (err) {
+    if (!isNotFoundError(err)) throw err;
     return {
       available: false,
       s3Key: null,
@@ -82,10 +117,122 @@ export const checkS3Availability = async (
   }
 };
 
-// Generate presigned URL for direct S3 download
-export const generatePresignedUrl = async (fileId: number): Promise<string> => {
-  const s3Key = sanitizeS3Key(fileId);
+// Stream an object's body. Mock mode returns a small placeholder.
+export const getS3Object = async (
+  s3Key: string,
+): Promise<{
+  size: number;
+  modifiedAt: Date;
+  body: AsyncIterable<Uint8Array>;
+}> => {
+  if (!env.S3_BUCKET_NAME) {
+    const content = Buffer.from(`Mock content of ${s3Key}\n`);
+    return {
+      size: content.length,
+      modifiedAt: new Date(),
+      body: Readable.from([content]),
+    };
+  }
+
+  const response = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: env.S3_BUCKET_NAME,
+      Key: s3Key,
+    }),
+  );
+  if (!response.Body) throw new Error(`Empty response body for ${s3Key}`);
+  return {
+    size: response.ContentLength ?? 0,
+    modifiedAt: response.LastModified ?? new Date(),
+    body: response.Body as AsyncIterable<Uint8Array>,
+  };
+};
+
+// Upload a stream of unknown length with a multipart upload, one part at a
+// time; returns the uploaded size. A failed upload is aborted so its parts
+// don't linger in the bucket. Mock mode reads the stream and discards it.
+export const uploadS3Multipart = async (
+  s3Key: string,
+  body: AsyncIterable<Uint8Array>,
+  contentType: string,
+): Promise<number> => {
+  let size = 0;
 
+  if (!env.S3_BUCKET_NAME) {
+    for await (const chunk of body) size += chunk.length;
+    return size;
+  }
+
+  const bucket = env.S3_BUCKET_NAME;
+  const { UploadId: uploadId } = await s3Client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: bucket,
+      Key: s3Key,
+      ContentType: contentType,
+    }),
+  );
+  if (!uploadId) throw new Error(`No upload id returned for ${s3Key}`);
+
+  const parts: { ETag: string | undefined; PartNumber: number }[] = [];
+  const uploadPart = async (data: Buffer): Promise<void> => {
+    const partNumber = parts.length + 1;
+    const { ETag } = await s3Client.send(
+      new UploadPartCommand({
+        Bucket: bucket,
+        Key: s3Key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: data,
+      }),
+    );
+    parts.push({ ETag, PartNumber: partNumber });
+  };
+
+  try {
+    let buffered: Buffer[] = [];
+    let bufferedSize = 0;
+    for await (const chunk of body) {
+      buffered.push(Buffer.from(chunk));
+      bufferedSize += chunk.length;
+      size += chunk.length;
+      if (bufferedSize >= MULTIPART_PART_SIZE) {
+        await uploadPart(Buffer.concat(buffered));
+        buffered = [];
+        bufferedSize = 0;
+      }
+    }
+    // The last part may be smaller; an empty stream still needs one part
+    if (bufferedSize > 0 || parts.length === 0) {
+      await uploadPart(Buffer.concat(buffered));
+    }
+
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: s3Key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      }),
+    );
+    return size;
+  } catch (err) {
+    await s3Client
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: s3Key,
+          UploadId: uploadId,
+        }),
+      )
+      .catch((abortErr: unknown) => {
+        console.error(`[S3] Failed to abort upload of ${s3Key}:`, abortErr);
+      });
+    throw err;
+  }
+};
+
+// Generate presigned URL for direct S3 download
+export const generatePresignedUrl = async (s3Key: string): Promise<string> => {
   // Mock mode - return a fake URL
   if (!env.S3_BUCKET_NAME) {
     return `https://storage.example.com/${s3Key}?token=${crypto.randomUUID()}`;
@@ -0,0 +1,243 @@
+/**
+ * Authentication Middleware
+ *
+ * Resolves the caller to a Principal and stores it on the Hono context.
+ * Providers (AUTH_PROVIDERS) are tried in order:
+ * - apikey: `X-API-Key: <key>` or `Authorization: ApiKey <key>`, looked up in Redis
+ * - jwt: `Authorization: Bearer <token>`, HS256 (shared secret) or RS256 (local JWKS file)
+ *
+ * Requests without credentials get an anonymous principal keyed by client IP,
+ * unless AUTH_ALLOW_ANONYMOUS=false. The client IP is the socket address;
+ * X-Forwarded-For is only read on connections from TRUSTED_PROXIES, so
+ * callers can't pick their own anonymous identity.
+ *
+ * Each principal carries a rate limit tier: the API key's tier, the JWT's
+ * `tier` claim, or "anonymous".
+ */
+import { getConnInfo } from "@hono/node-server/conninfo";
+import type { Context, MiddlewareHandler } from "hono";
+import { decode, verify, verifyWithJwks } from "hono/jwt";
+import type { HonoJsonWebKey } from "hono/utils/jwt/jws";
+import { readFileSync } from "node:fs";
+import { BlockList, isIP } from "node:net";
+import { env } from "../config/env.ts";
+import { DEFAULT_TIER, getApiKeyRecord } from "../services/apikey.service.ts";
+
+export type AuthMethod = "apikey" | "jwt" | "anonymous";
+
+// Authenticated caller
+export interface Principal {
+  id: string;
+  method: AuthMethod;
+  roles: string[];
+  tier: string;
+}
+
+// Credentials were presented but are invalid
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Returns null when the request carries no credentials for this provider
+type Authenticator = (c: Context) => Promise<Principal | null>;
+
+// ============ API Key Provider ============
+
+const getApiKey = (c: Context): string | undefined => {
+  const header = c.req.header("x-api-key");
+  if (header) return header;
+  const authorization = c.req.header("authorization");
+  if (authorization?.startsWith("ApiKey ")) {
+    return authorization.slice("ApiKey ".length).trim();
+  }
+  return undefined;
+};
+
+const authenticateApiKey: Authenticator = async (c) => {
+  const apiKey = getApiKey(c);
+  if (!apiKey) return null;
+
+  const record = await getApiKeyRecord(apiKey);
+  if (!record) {
+    throw new AuthError("Invalid API key");
+  }
+
+  return {
+    id: record.userId,
+    method: "apikey",
+    roles: record.roles,
+    tier: record.tier,
+  };
+};
+
+// ============ JWT Provider ============
+
+let jwksKeys: HonoJsonWebKey[] | null = null;
+
+// Load the local JWKS file once
+const getJwksKeys = (): HonoJsonWebKey[] => {
+  if (!env.JWT_JWKS_PATH) return [];
+  if (!jwksKeys) {
+    const jwks = JSON.parse(readFileSync(env.JWT_JWKS_PATH, "utf8")) as {
+      keys?: HonoJsonWebKey[];
+    };
+    jwksKeys = jwks.keys ?? [];
+    console.log(
+      `[Auth] Loaded ${jwksKeys.length.toString()} keys from ${env.JWT_JWKS_PATH}`,
+    );
+  }
+  return jwksKeys;
+};
+
+const verifyJwt = async (token: string) => {
+  const verification = {
+    ...(env.JWT_ISSUER && { iss: env.JWT_ISSUER }),
+    ...(env.JWT_AUDIENCE && { aud: env.JWT_AUDIENCE }),
+  };
+
+  // Pick the key by algorithm so an RS256 key can never verify an HS256 token
+  const { header } = decode(token);
+  if (header.alg === "HS256" && env.JWT_HS256_SECRET) {
+    return await verify(token, env.JWT_HS256_SECRET, {
+      alg: "HS256",
+      ...verification,
+    });
+  }
+  if (header.alg === "RS256" && env.JWT_JWKS_PATH) {
+    const keys = getJwksKeys().filter(
+      (key) => key.kty === "RSA" && (!key.alg || key.alg === "RS256"),
+    );
+    return await verifyWithJwks(token, { keys, verification });
+  }
+  throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+};
+
+const authenticateJwt: Authenticator = async (c) => {
+  const authorization = c.req.header("authorization");
+  if (!authorization?.startsWith("Bearer ")) return null;
+
+  const token = authorization.slice("Bearer ".length).trim();
+  let payload: Awaited<ReturnType<typeof verifyJwt>>;
+  try {
+    payload = await verifyJwt(token);
+  } catch (err) {
+    if (err instanceof AuthError) throw err;
+    throw new AuthError("Invalid or expired token");
+  }
+
+  if (typeof payload.sub !== "string" || payload.sub === "") {
+    throw new AuthError("Token is missing the sub claim");
+  }
+
+  const roles = Array.isArray(payload.roles)
+    ? payload.roles.filter((role): role is string => typeof role === "string")
+    : [];
+
+  const tier =
+    typeof payload.tier === "string" && payload.tier !== ""
+      ? payload.tier
+      : DEFAULT_TIER;
+
+  return { id: payload.sub, method: "jwt", roles, tier };
+};
+
+// ============ Middleware ============
+
+const authenticators: Record<
+  (typeof env.AUTH_PROVIDERS)[number],
+  Authenticator
+> = {
+  apikey: authenticateApiKey,
+  jwt: authenticateJwt,
+};
+
+// ============ Client IP ============
+
+const trustedProxies = new BlockList();
+for (const entry of env.TRUSTED_PROXIES) {
+  const [address, prefix] = entry.split("/");
+  const type = isIP(address) === 6 ? "ipv6" : "ipv4";
+  if (entry.includes("/")) {
+    trustedProxies.addSubnet(address, parseInt(prefix, 10), type);
+  } else {
+    trustedProxies.addAddress(address, type);
+  }
+}
+
+// IPv4 clients of a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeIp = (address: string): string =>
+  address.startsWith("::ffff:") && isIP(address.slice(7)) === 4
+    ? address.slice(7)
+    : address;
+
+const isTrustedProxy = (address: string): boolean => {
+  const version = isIP(address);
+  return (
+    version !== 0 &&
+    trustedProxies.check(address, version === 6 ? "ipv6" : "ipv4")
+  );
+};
+
+// Client IP for anonymous principals and rate limits. Behind trusted proxies
+// it is the last X-Forwarded-For hop they didn't add themselves; entries
+// further left come from the client and are ignored.
+export const getClientIp = (c: Context): string => {
+  const remote = normalizeIp(getConnInfo(c).remote.address ?? "unknown");
+  if (!isTrustedProxy(remote)) return remote;
+
+  const hops = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => normalizeIp(hop.trim()))
+    .filter((hop) => hop !== "");
+  return hops.findLast((hop) => !isTrustedProxy(hop)) ?? hops.at(0) ?? remote;
+};
+
+const unauthorized = (c: Context, message: string) => {
+  c.header("WWW-Authenticate", 'Bearer, ApiKey realm="download-api"');
+  return c.json(
+    {
+      error: "Unauthorized",
+      message,
+      requestId: c.get("requestId"),
+    },
+    401,
+  );
+};
+
+export const authMiddleware = (): MiddlewareHandler => async (c, next) => {
+  let principal: Principal | null = null;
+  try {
+    for (const provider of env.AUTH_PROVIDERS) {
+      principal = await authenticators[provider](c);
+      if (principal) break;
+    }
+  } catch (err) {
+    if (err instanceof AuthError) {
+      console.warn(`[Auth] Rejected request to ${c.req.path}: ${err.message}`);
+      return unauthorized(c, err.message);
+    }
+    throw err;
+  }
+
+  if (!principal) {
+    if (!env.AUTH_ALLOW_ANONYMOUS) {
+      return unauthorized(c, "Authentication required");
+    }
+    principal = {
+      id: `anonymous:${getClientIp(c)}`,
+      method: "anonymous",
+      roles: [],
+      tier: "anonymous",
+    };
+  }
+
+  c.set("principal", principal);
+  await next();
+};
+
+// Check whether a principal has a role
+export const hasRole = (principal: Principal, role: string): boolean =>
+  principal.roles.includes(role);
@@ -0,0 +1,140 @@
+/**
+ * Idempotency Middleware
+ *
+ * Implements the IETF Idempotency-Key header draft for POST routes:
+ * - `Idempotency-Key: "<key>"` (structured string; `X-Idempotency-Key` and
+ *   unquoted keys are accepted too), scoped to the authenticated user
+ * - the first request reserves the key with a fingerprint of method, path,
+ *   user and body; its 2xx response is stored and replayed as-is to later
+ *   requests with the same key (`Idempotent-Replayed: true`)
+ * - same key, different request: 422
+ * - same key while the first request is still running: 409
+ *
+ * Non-2xx responses are not stored; the key is released so it can be reused.
+ */
+import type { Context, MiddlewareHandler } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+  completeIdempotencyKey,
+  fingerprintRequest,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from "../services/idempotency.service.ts";
+
+const MAX_KEY_LENGTH = 255;
+
+// Printable ASCII without quotes or backslashes (sf-string content we accept)
+const KEY_PATTERN = /^[\x20-\x21\x23-\x5b\x5d-\x7e]+$/;
+
+// Key from the header, unquoted; undefined if absent, null if malformed
+const readIdempotencyKey = (c: Context): string | null | undefined => {
+  const header =
+    c.req.header("idempotency-key") ?? c.req.header("x-idempotency-key");
+  if (header === undefined) return undefined;
+
+  const trimmed = header.trim();
+  const key =
+    trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+      ? trimmed.slice(1, -1)
+      : trimmed;
+  return key.length <= MAX_KEY_LENGTH && KEY_PATTERN.test(key) ? key : null;
+};
+
+const errorResponse = (
+  c: Context,
+  status: 400 | 409 | 422,
+  error: string,
+  message: string,
+) => c.json({ error, message, requestId: c.get("requestId") }, status);
+
+// jobId of the stored response, for reconciliation
+const getResponseJobId = (body: string): string | null => {
+  try {
+    const { jobId } = JSON.parse(body) as { jobId?: unknown };
+    return typeof jobId === "string" ? jobId : null;
+  } catch {
+    return null;
+  }
+};
+
+export const idempotencyMiddleware =
+  (): MiddlewareHandler => async (c, next) => {
+    if (c.req.method !== "POST") {
+      await next();
+      return;
+    }
+
+    const key = readIdempotencyKey(c);
+    if (key === undefined) {
+      await next();
+      return;
+    }
+    if (key === null) {
+      return errorResponse(
+        c,
+        400,
+        "Bad Request",
+        `Idempotency-Key must be 1-${MAX_KEY_LENGTH.toString()} printable characters`,
+      );
+    }
+
+    const userId = c.get("principal").id;
+    const fingerprint = fingerprintRequest({
+      method: c.req.method,
+      path: c.req.path,
+      userId,
+      body: await c.req.text(),
+    });
+
+    const reservation = await reserveIdempotencyKey(userId, key, fingerprint);
+    switch (reservation.outcome) {
+      case "mismatch":
+        return errorResponse(
+          c,
+          422,
+          "Unprocessable Content",
+          "Idempotency-Key was already used for a different request",
+        );
+      case "in_progress":
+        return errorResponse(
+          c,
+          409,
+          "Conflict",
+          "A request with this Idempotency-Key is still being processed",
+        );
+      case "replay":
+        console.log(`[Idempotency] Replaying stored response for key ${key}`);
+        return c.body(
+          reservation.response.body,
+          // Only 2xx responses are stored
+          reservation.response.status as ContentfulStatusCode,
+          {
+            "Content-Type": "application/json",
+            "Idempotent-Replayed": "true",
+          },
+        );
+      case "reserved":
+        break;
+    }
+
+    c.set("idempotencyKey", key);
+    let stored = false;
+    try {
+      await next();
+      if (c.res.status >= 200 && c.res.status < 300) {
+        const body = await c.res.clone().text();
+        await completeIdempotencyKey(
+          userId,
+          key,
+          reservation.token,
+          { status: c.res.status, body },
+          getResponseJobId(body),
+        );
+        stored = true;
+      }
+    } finally {
+      if (!stored) {
+        await releaseIdempotencyKey(userId, key, reservation.token);
+      }
+    }
+  };
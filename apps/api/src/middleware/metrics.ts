@@ -0,0 +1,24 @@
+/**
+ * Metrics Middleware
+ *
+ * Records request latency per matched route pattern (e.g.
+ * `/v1/download/status/:jobId`) so job IDs don't blow up label cardinality.
+ */
+import type { MiddlewareHandler } from "hono";
+import { routePath } from "hono/route";
+import { httpRequestDuration } from "../lib/metrics.ts";
+
+export const metricsMiddleware = (): MiddlewareHandler => async (c, next) => {
+  const endTimer = httpRequestDuration.startTimer();
+  try {
+    await next();
+  } finally {
+    // Last matched route is the handler; wildcards mean nothing matched
+    const route = routePath(c, -1);
+    endTimer({
+      method: c.req.method,
+      route: route.includes("*") ? "unmatched" : route,
+      status: c.res.status.toString(),
+    });
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Per-principal request limits, counted in Redis so the limit holds across
+ * all API replicas. Runs after authMiddleware: the principal's tier picks the
+ * limit (RATE_LIMIT_TIERS, falling back to RATE_LIMIT_MAX_REQUESTS) and the
+ * principal ID is the counter key, so anonymous callers are limited per IP.
+ * Routes outside /v1 have no principal and count as anonymous.
+ *
+ * A second limiter runs before authMiddleware and counts only 401 responses
+ * per client IP, so guessing credentials is throttled too.
+ */
+import type { Context, MiddlewareHandler } from "hono";
+import { rateLimiter } from "hono-rate-limiter";
+import { env } from "../config/env.ts";
+import { createRedisRateLimitStore } from "../lib/rate-limit.ts";
+import type { Principal } from "./auth.ts";
+import { getClientIp } from "./auth.ts";
+
+// Requests per window allowed for a tier
+export const getTierLimit = (tier: string): number =>
+  env.RATE_LIMIT_TIERS[tier] ?? env.RATE_LIMIT_MAX_REQUESTS;
+
+// Counter key and tier for the caller
+const getRateLimitClient = (c: Context): { key: string; tier: string } => {
+  // Unset on routes that skip authMiddleware
+  const principal = c.get("principal") as Principal | undefined;
+  return principal
+    ? { key: principal.id, tier: principal.tier }
+    : { key: `anonymous:${getClientIp(c)}`, tier: "anonymous" };
+};
+
+export const rateLimitMiddleware = (options: {
+  skip?: (c: Context) => boolean;
+}): MiddlewareHandler =>
+  rateLimiter({
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+    limit: (c) => getTierLimit(getRateLimitClient(c).tier),
+    standardHeaders: "draft-6",
+    keyGenerator: (c) => getRateLimitClient(c).key,
+    skip: options.skip,
+    store: createRedisRateLimitStore(),
+    handler: (c) =>
+      c.json(
+        {
+          error: "Too Many Requests",
+          message: `Rate limit of ${getTierLimit(getRateLimitClient(c).tier).toString()} requests per ${Math.ceil(env.RATE_LIMIT_WINDOW_MS / 1000).toString()}s exceeded`,
+          requestId: c.get("requestId"),
+        },
+        429,
+      ),
+  });
+
+// Only rejected credentials count, keyed by IP since there is no principal
+export const authFailureLimitMiddleware = (): MiddlewareHandler =>
+  rateLimiter({
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+    limit: env.AUTH_FAILURE_LIMIT,
+    standardHeaders: false,
+    keyGenerator: (c) => `auth-failures:${getClientIp(c)}`,
+    skipSuccessfulRequests: true,
+    requestWasSuccessful: (c) => c.res.status !== 401,
+    store: createRedisRateLimitStore(),
+    handler: (c) =>
+      c.json(
+        {
+          error: "Too Many Requests",
+          message: `Too many failed authentication attempts, retry in ${Math.ceil(env.RATE_LIMIT_WINDOW_MS / 1000).toString()}s`,
+          requestId: c.get("requestId"),
+        },
+        429,
+      ),
+  });
@@ -0,0 +1,514 @@
+/**
+ * Admin Routes
+ *
+ * Operational endpoints (reconciliation reports, access audit, per-user queue
+ * depth, dead-letter queue). Open to principals with
+ * the "admin" role, or to callers presenting ADMIN_API_KEY in X-Admin-Key.
+ */
+import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
+import { timingSafeEqual } from "node:crypto";
+import { env } from "../config/env.ts";
+import { getUserQueueDepths } from "../lib/fair-queue.ts";
+import {
+  enqueueReconciliation,
+  getDeadLetterJob,
+  removeDeadLetterJob,
+} from "../lib/queue.ts";
+import { hasRole } from "../middleware/auth.ts";
+import {
+  DeadLetterBulkReplayRequestSchema,
+  DeadLetterBulkReplayResponseSchema,
+  DeadLetterFilterSchema,
+  DeadLetterJobSchema,
+  DeadLetterListResponseSchema,
+  DeadLetterPurgeResponseSchema,
+  DeadLetterReplayResultSchema,
+  ErrorResponseSchema,
+  JobAccessAuditResponseSchema,
+  QueueUserDepthsResponseSchema,
+  ReconciliationReportSchema,
+  ReconciliationTriggerResponseSchema,
+} from "../schemas/index.ts";
+import { getJobAccessAudit } from "../services/audit.service.ts";
+import {
+  listDeadLetterJobs,
+  purgeDeadLetterJobs,
+  replayDeadLetterJob,
+  replayDeadLetterJobs,
+} from "../services/dead-letter.service.ts";
+import { getLatestReconciliationReport } from "../services/reconciliation.service.ts";
+
+const adminRouter = new OpenAPIHono();
+
+// Constant-time comparison of the provided admin key
+const isValidAdminKey = (provided: string | undefined): boolean => {
+  if (!env.ADMIN_API_KEY || !provided) return false;
+  const expected = Buffer.from(env.ADMIN_API_KEY);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Admin access middleware
+adminRouter.use("/v1/admin/*", async (c, next) => {
+  if (hasRole(c.get("principal"), "admin")) {
+    await next();
+    return;
+  }
+  if (!env.ADMIN_API_KEY) {
+    return c.json(
+      {
+        error: "Forbidden",
+        message: "Admin role required",
+        requestId: c.get("requestId"),
+      },
+      403,
+    );
+  }
+  if (!isValidAdminKey(c.req.header("x-admin-key"))) {
+    return c.json(
+      {
+        error: "Unauthorized",
+        message: "Invalid or missing X-Admin-Key header",
+        requestId: c.get("requestId"),
+      },
+      401,
+    );
+  }
+  await next();
+});
+
+// ============ Route Definitions ============
+
+const reconciliationReportRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/reconciliation",
+  tags: ["Admin"],
+  summary: "Latest reconciliation report",
+  description:
+    "Returns the report from the most recent Redis/S3 reconciliation run",
+  responses: {
+    200: {
+      description: "Reconciliation report",
+      content: {
+        "application/json": {
+          schema: ReconciliationReportSchema,
+        },
+      },
+    },
+    404: {
+      description: "No reconciliation has run yet",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const reconciliationTriggerRoute = createRoute({
+  method: "post",
+  path: "/v1/admin/reconciliation",
+  tags: ["Admin"],
+  summary: "Run reconciliation now",
+  description:
+    "Enqueues an on-demand reconciliation run on the maintenance queue",
+  responses: {
+    202: {
+      description: "Reconciliation enqueued",
+      content: {
+        "application/json": {
+          schema: ReconciliationTriggerResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const jobAccessAuditRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/audit/job-access",
+  tags: ["Admin"],
+  summary: "Cross-user job access audit",
+  description:
+    "Lists recent attempts to access another user's job, newest first (denied attempts and admin overrides)",
+  request: {
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(1000).default(100),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Audit entries",
+      content: {
+        "application/json": {
+          schema: JobAccessAuditResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const queueUserDepthsRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/queue/users",
+  tags: ["Admin"],
+  summary: "Per-user queue depth",
+  description:
+    "Lists users with jobs waiting to start, deepest backlog first. Jobs are interleaved across these users within each priority lane",
+  request: {
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(1000).default(100),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Waiting jobs per user",
+      content: {
+        "application/json": {
+          schema: QueueUserDepthsResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const deadLetterListRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/dead-letter",
+  tags: ["Admin"],
+  summary: "List dead-lettered jobs",
+  description:
+    "Lists download jobs that failed for good (retries exhausted or a permanent error), newest first",
+  request: {
+    query: DeadLetterFilterSchema.extend({
+      limit: z.coerce.number().int().min(1).max(1000).default(100),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Dead-lettered jobs",
+      content: {
+        "application/json": {
+          schema: DeadLetterListResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const deadLetterJobRoute = createRoute({
+  method: "get",
+  path: "/v1/admin/dead-letter/:jobId",
+  tags: ["Admin"],
+  summary: "Inspect a dead-lettered job",
+  description:
+    "Returns a dead-lettered job with its error history, attempts, applied retry policy and last stack trace",
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Dead-lettered job",
+      content: {
+        "application/json": {
+          schema: DeadLetterJobSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job is not in the dead-letter queue",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const deadLetterReplayRoute = createRoute({
+  method: "post",
+  path: "/v1/admin/dead-letter/:jobId/replay",
+  tags: ["Admin"],
+  summary: "Replay a dead-lettered job",
+  description: `Re-enqueues a dead-lettered job under its original jobId and removes it from the dead-letter queue.
+    Attempts carry over and the owner's concurrency limit applies, like a manual retry.`,
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+  },
+  responses: {
+    202: {
+      description: "Job re-enqueued",
+      content: {
+        "application/json": {
+          schema: DeadLetterReplayResultSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job is not in the dead-letter queue",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description:
+        "Job was already retried (entry dropped) or another replay is running",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Job owner is at the concurrency limit (entry kept)",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const deadLetterBulkReplayRoute = createRoute({
+  method: "post",
+  path: "/v1/admin/dead-letter/replay",
+  tags: ["Admin"],
+  summary: "Replay dead-lettered jobs in bulk",
+  description: `Replays up to \`limit\` dead-lettered jobs matching the filters, oldest first (an empty filter matches every job).
+    Jobs whose owner is at the concurrency limit stay dead-lettered; repeat the call once slots free up.`,
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: DeadLetterBulkReplayRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Outcome per matched job",
+      content: {
+        "application/json": {
+          schema: DeadLetterBulkReplayResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+const deadLetterPurgeJobRoute = createRoute({
+  method: "delete",
+  path: "/v1/admin/dead-letter/:jobId",
+  tags: ["Admin"],
+  summary: "Purge a dead-lettered job",
+  description:
+    "Removes a job from the dead-letter queue without replaying it. The job itself stays failed.",
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Job purged",
+      content: {
+        "application/json": {
+          schema: DeadLetterPurgeResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job is not in the dead-letter queue",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const deadLetterPurgeRoute = createRoute({
+  method: "delete",
+  path: "/v1/admin/dead-letter",
+  tags: ["Admin"],
+  summary: "Purge dead-lettered jobs",
+  description:
+    "Removes every dead-lettered job matching the filters (all of them when no filter is given). The jobs themselves stay failed.",
+  request: {
+    query: DeadLetterFilterSchema,
+  },
+  responses: {
+    200: {
+      description: "Jobs purged",
+      content: {
+        "application/json": {
+          schema: DeadLetterPurgeResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============ Route Handlers ============
+
+adminRouter.openapi(reconciliationReportRoute, async (c) => {
+  const report = await getLatestReconciliationReport();
+  if (!report) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "No reconciliation report available yet",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json(report, 200);
+});
+
+adminRouter.openapi(reconciliationTriggerRoute, async (c) => {
+  const runId = await enqueueReconciliation();
+  console.log(`[Admin] Reconciliation run ${runId} enqueued`);
+  return c.json(
+    {
+      runId,
+      message: "Reconciliation enqueued; fetch the report once it completes",
+    },
+    202,
+  );
+});
+
+adminRouter.openapi(jobAccessAuditRoute, async (c) => {
+  const { limit } = c.req.valid("query");
+  const entries = await getJobAccessAudit(limit);
+  return c.json({ entries }, 200);
+});
+
+adminRouter.openapi(queueUserDepthsRoute, async (c) => {
+  const { limit } = c.req.valid("query");
+  const depths = await getUserQueueDepths();
+  return c.json(
+    { waitingUsers: depths.length, users: depths.slice(0, limit) },
+    200,
+  );
+});
+
+adminRouter.openapi(deadLetterListRoute, async (c) => {
+  const { limit, ...filter } = c.req.valid("query");
+  const { total, jobs } = await listDeadLetterJobs(filter, limit);
+  return c.json(
+    {
+      total,
+      jobs: jobs.map((entry) => ({
+        jobId: entry.jobId,
+        fileId: entry.fileId,
+        userId: entry.userId,
+        priority: entry.priority,
+        errorCode: entry.errorCode,
+        error: entry.error,
+        permanent: entry.permanent,
+        attempts: entry.attempts,
+        createdAt: entry.createdAt,
+        deadLetteredAt: entry.deadLetteredAt,
+      })),
+    },
+    200,
+  );
+});
+
+adminRouter.openapi(deadLetterJobRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const entry = await getDeadLetterJob(jobId);
+  if (!entry) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Job is not in the dead-letter queue",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json(
+    {
+      jobId: entry.jobId,
+      fileId: entry.fileId,
+      userId: entry.userId,
+      priority: entry.priority,
+      errorCode: entry.errorCode,
+      error: entry.error,
+      permanent: entry.permanent,
+      attempts: entry.attempts,
+      createdAt: entry.createdAt,
+      deadLetteredAt: entry.deadLetteredAt,
+      callbackUrl: entry.callbackUrl,
+      archive: entry.archive ?? null,
+      errors: entry.errors,
+      stacktrace: entry.stacktrace,
+      retryPolicy: entry.retryPolicy,
+    },
+    200,
+  );
+});
+
+adminRouter.openapi(deadLetterReplayRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const outcome = await replayDeadLetterJob(jobId);
+  switch (outcome) {
+    case "replayed":
+      return c.json({ jobId, outcome }, 202);
+    case "not_found":
+      return c.json(
+        {
+          error: "Not Found",
+          message: "Job is not in the dead-letter queue",
+          requestId: c.get("requestId"),
+        },
+        404,
+      );
+    case "superseded":
+    case "in_progress":
+      return c.json(
+        {
+          error: "Conflict",
+          message:
+            outcome === "superseded"
+              ? "Job was already retried; its dead-letter entry was removed"
+              : "Job is already being replayed",
+          requestId: c.get("requestId"),
+        },
+        409,
+      );
+    case "concurrency_limit":
+      return c.json(
+        {
+          error: "Too Many Requests",
+          message: `Job owner already has ${env.MAX_CONCURRENT_DOWNLOADS_PER_USER.toString()} concurrent downloads`,
+          requestId: c.get("requestId"),
+        },
+        429,
+      );
+  }
+});
+
+adminRouter.openapi(deadLetterBulkReplayRoute, async (c) => {
+  const { limit, ...filter } = c.req.valid("json");
+  const results = await replayDeadLetterJobs(filter, limit);
+  const replayed = results.filter(
+    (result) => result.outcome === "replayed",
+  ).length;
+  console.log(
+    `[Admin] Replayed ${replayed.toString()}/${results.length.toString()} dead-lettered jobs`,
+  );
+  return c.json({ replayed, results }, 200);
+});
+
+adminRouter.openapi(deadLetterPurgeJobRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  if (!(await removeDeadLetterJob(jobId))) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Job is not in the dead-letter queue",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+  return c.json({ purged: 1 }, 200);
+});
+
+adminRouter.openapi(deadLetterPurgeRoute, async (c) => {
+  const filter = c.req.valid("query");
+  const purged = await purgeDeadLetterJobs(filter);
+  return c.json({ purged }, 200);
+});
+
+export { adminRouter };
@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
 /**
  * Download Routes
  *
@@ -10,14 +9,30 @@
 import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
 import type { Context } from "hono";
 import { streamSSE } from "hono/streaming";
-import Redis from "ioredis";
+import type { JobErrorCode, JobPriority } from "../config/env.ts";
 import { env } from "../config/env.ts";
-import { addDownloadJob } from "../lib/queue.ts";
+import { getCallbackUrlViolation } from "../lib/callback-url.ts";
+import { jobsRetriedTotal } from "../lib/metrics.ts";
+import { subscribeChannel, trackSSEConnection } from "../lib/pubsub.ts";
+import {
+  addDownloadJob,
+  removeDeadLetterJob,
+  removeQueuedDownloadJob,
+  requeueDownloadJob,
+  rescheduleDownloadJob,
+} from "../lib/queue.ts";
 import { RedisKeys } from "../lib/redis.ts";
 import { checkS3Availability } from "../lib/s3.ts";
+import type { Principal } from "../middleware/auth.ts";
+import { hasRole } from "../middleware/auth.ts";
+import { idempotencyMiddleware } from "../middleware/idempotency.ts";
 import {
+  ArchiveDownloadRequestSchema,
   AsyncDownloadRequestSchema,
   AsyncDownloadResponseSchema,
+  BatchDownloadRequestSchema,
+  BatchDownloadResponseSchema,
+  BatchStatusResponseSchema,
   DownloadCheckRequestSchema,
   DownloadCheckResponseSchema,
   DownloadInitiateRequestSchema,
@@ -25,20 +40,67 @@ import {
   DownloadStartRequestSchema,
   DownloadStartResponseSchema,
   ErrorResponseSchema,
+  IdempotencyHeadersSchema,
+  JobListResponseSchema,
   JobStatusResponseSchema,
   RateLimitErrorSchema,
+  RescheduleJobRequestSchema,
+  WebhookDeliveriesResponseSchema,
 } from "../schemas/index.ts";
+import { recordJobAccess } from "../services/audit.service.ts";
+import type { BatchData } from "../services/batch.service.ts";
+import {
+  createBatch,
+  getBatch,
+  getBatchJobIds,
+  getBatchFileLimit,
+  getBatchJobs,
+  isFinishedBatchStatus,
+  summarizeBatch,
+} from "../services/batch.service.ts";
+import type { JobEstimate } from "../services/estimate.service.ts";
+import {
+  estimateJobs,
+  estimateJobStatus,
+} from "../services/estimate.service.ts";
+import type {
+  JobArchive,
+  JobData,
+  JobEvent,
+  JobStatus,
+} from "../services/job.service.ts";
 import {
-  checkIdempotencyKey,
-  checkUserRateLimit,
+  admitUserJob,
   createJob,
+  decodeJobListCursor,
+  compareJobEventIds,
   getJob,
-  incrementUserActiveJobs,
-  setIdempotencyKey,
+  getJobEventsSince,
+  getLatestJobEventId,
+  isTerminalStatus,
+  isValidJobEventId,
+  JOB_STATUSES,
+  listUserJobs,
+  markJobCancelled,
+  releaseUserJob,
+  requestJobCancellation,
+  rescheduleJob,
+  resetJobForRetry,
 } from "../services/job.service.ts";
+import {
+  getAllowedPriorities,
+  getDefaultPriority,
+} from "../services/priority.service.ts";
+import { getWebhookDeliveries } from "../services/webhook.service.ts";
 
 const downloadRouter = new OpenAPIHono();
 
+// Idempotency-Key handling for the job-creating POST routes
+downloadRouter.use("/v1/download", idempotencyMiddleware());
+downloadRouter.use("/v1/download/batch", idempotencyMiddleware());
+downloadRouter.use("/v1/download/archive", idempotencyMiddleware());
+downloadRouter.use("/v1/download/:jobId/retry", idempotencyMiddleware());
+
 // ============ Helper Functions ============
 const getRandomDelay = (): number => {
   if (!env.DOWNLOAD_DELAY_ENABLED) return 0;
@@ -50,25 +112,424 @@ const getRandomDelay = (): number => {
 const sleep = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
-// Get user ID from request (simplified - in production use auth)
-const getUserId = (c: Context): string => {
-  return (
-    c.req.header("x-user-id") ??
-    c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-    c.req.header("x-real-ip") ??
-    "anonymous"
+// Load a job the caller may access. Other users' jobs look missing (404) so
+// job IDs can't be probed; admins may access any job. Cross-user access is audited.
+const getAccessibleJob = async (
+  c: Context,
+  jobId: string,
+  action: string,
+): Promise<JobData | null> => {
+  const job = await getJob(jobId);
+  if (!job) return null;
+
+  const principal = c.get("principal");
+  if (job.userId === principal.id) return job;
+
+  const allowed = hasRole(principal, "admin");
+  await recordJobAccess({
+    timestamp: Date.now(),
+    requestId: c.get("requestId"),
+    principalId: principal.id,
+    ownerId: job.userId,
+    jobId,
+    action,
+    allowed,
+  });
+  return allowed ? job : null;
+};
+
+// Map stored job data and its queue estimate to the public status response
+const toJobStatusResponse = (job: JobData, estimate: JobEstimate) => ({
+  jobId: job.id,
+  fileId: job.fileId,
+  status: job.status,
+  progress: job.progress,
+  bytesProcessed: job.bytesProcessed,
+  totalBytes: job.totalBytes,
+  throughput: job.throughput,
+  downloadUrl: job.downloadUrl,
+  error: job.error,
+  errorCode: job.errorCode,
+  retryPolicy: job.retryPolicy,
+  canRetry: job.canRetry,
+  priority: job.priority,
+  runAt: job.runAt,
+  batchId: job.batchId,
+  archive: job.archive,
+  ...estimate,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+});
+
+// Map stored job data to the create/retry response
+const toAsyncDownloadResponse = (job: JobData, isNew: boolean) => ({
+  jobId: job.id,
+  fileId: job.fileId,
+  status:
+    job.status === "scheduled" || job.status === "queued"
+      ? job.status
+      : ("processing" as const),
+  isNew,
+  priority: job.priority,
+  runAt: job.runAt,
+  archive: job.archive,
+  createdAt: job.createdAt,
+  statusUrl: `/v1/download/status/${job.id}`,
+  subscribeUrl: `/v1/download/subscribe/${job.id}`,
+});
+
+// Load a batch the caller may access, with the same rules as jobs
+const getAccessibleBatch = async (
+  c: Context,
+  batchId: string,
+  action: string,
+): Promise<BatchData | null> => {
+  const batch = await getBatch(batchId);
+  if (!batch) return null;
+
+  const principal = c.get("principal");
+  if (batch.userId === principal.id) return batch;
+
+  const allowed = hasRole(principal, "admin");
+  await recordJobAccess({
+    timestamp: Date.now(),
+    requestId: c.get("requestId"),
+    principalId: principal.id,
+    ownerId: batch.userId,
+    jobId: batchId,
+    action: `batch_${action}`,
+    allowed,
+  });
+  return allowed ? batch : null;
+};
+
+// Why a batch is too large for the caller's tier, or null if it fits.
+// Duplicates share one job, so they count once.
+const getBatchSizeError = (
+  principal: Principal,
+  fileIds: number[],
+): string | null => {
+  const limit = getBatchFileLimit(principal.tier);
+  return new Set(fileIds).size > limit
+    ? `Batches are limited to ${limit.toString()} distinct files for the ${principal.tier} tier`
+    : null;
+};
+
+// Map a batch and its children to the public batch status response
+const toBatchStatusResponse = (batch: BatchData, jobs: JobData[]) => ({
+  batchId: batch.id,
+  ...summarizeBatch(jobs),
+  totalFiles: batch.totalFiles,
+  priority: batch.priority,
+  createdAt: batch.createdAt,
+  files: jobs.map((job) => ({
+    jobId: job.id,
+    fileId: job.fileId,
+    status: job.status,
+    progress: job.progress,
+    downloadUrl: job.downloadUrl,
+    error: job.error,
+    errorCode: job.errorCode,
+    canRetry: job.canRetry,
+  })),
+});
+
+// Reason to reject a job's callbackUrl, or null to accept it
+const getCallbackUrlError = async (
+  callbackUrl: string | undefined,
+): Promise<string | null> => {
+  if (!callbackUrl) return null;
+  // Unsigned callbacks are never sent
+  if (!env.WEBHOOK_SIGNING_SECRET) {
+    return "Webhook callbacks are not enabled on this server";
+  }
+  try {
+    return await getCallbackUrlViolation(callbackUrl);
+  } catch {
+    return "callbackUrl host could not be resolved";
+  }
+};
+
+// Not-before time from runAt/delayMs, or null to start right away
+const resolveRunAt = (
+  schedule: { runAt?: number; delayMs?: number },
+  now: number,
+): number | null => {
+  const runAt =
+    schedule.delayMs === undefined ? schedule.runAt : now + schedule.delayMs;
+  return runAt !== undefined && runAt > now ? runAt : null;
+};
+
+const isBeyondScheduleHorizon = (runAt: number | null, now: number) =>
+  runAt !== null && runAt - now > env.SCHEDULE_MAX_DELAY_MS;
+
+// A single-file or archive job to create
+interface NewDownloadJob {
+  fileId: number; // An archive's first file
+  archive?: JobArchive;
+  callbackUrl?: string;
+  priority?: JobPriority;
+  runAt?: number;
+  delayMs?: number;
+  idempotencyKey?: string;
+}
+
+// Why a new download job was turned away
+type DownloadJobRejection =
+  | { status: 400 | 403; error: "Bad Request" | "Forbidden"; message: string }
+  | { status: 429; error: "Too Many Requests"; message: string };
+
+// Steps shared by POST /v1/download and /v1/download/archive: check the
+// callbackUrl, priority lane and schedule, claim a concurrency slot, then
+// create and enqueue the job. Scheduled jobs claim their slot when a worker
+// starts them.
+const createDownloadJob = async (
+  principal: Principal,
+  request: NewDownloadJob,
+): Promise<{ job: JobData } | { rejection: DownloadJobRejection }> => {
+  const callbackUrlError = await getCallbackUrlError(request.callbackUrl);
+  if (callbackUrlError) {
+    return {
+      rejection: {
+        status: 400,
+        error: "Bad Request",
+        message: callbackUrlError,
+      },
+    };
+  }
+
+  // Priority lane - the tier's lane or a lower one
+  const priority = request.priority ?? getDefaultPriority(principal);
+  const allowedPriorities = getAllowedPriorities(principal);
+  if (!allowedPriorities.includes(priority)) {
+    return {
+      rejection: {
+        status: 403,
+        error: "Forbidden",
+        message: `Priority "${priority}" is not allowed; use one of: ${allowedPriorities.join(", ")}`,
+      },
+    };
+  }
+
+  const jobId = crypto.randomUUID();
+  const now = Date.now();
+
+  const runAt = resolveRunAt(request, now);
+  if (isBeyondScheduleHorizon(runAt, now)) {
+    return {
+      rejection: {
+        status: 400,
+        error: "Bad Request",
+        message: `Jobs can be scheduled at most ${Math.floor(env.SCHEDULE_MAX_DELAY_MS / 1000).toString()}s ahead`,
+      },
+    };
+  }
+
+  // Claim a concurrency slot (atomic check-and-add)
+  const admission =
+    runAt === null
+      ? await admitUserJob(principal.id, jobId)
+      : { admitted: true };
+  if (!admission.admitted) {
+    return {
+      rejection: {
+        status: 429,
+        error: "Too Many Requests",
+        message: `Maximum ${env.MAX_CONCURRENT_DOWNLOADS_PER_USER.toString()} concurrent downloads allowed`,
+      },
+    };
+  }
+
+  const job = await createJob(
+    jobId,
+    request.fileId,
+    principal.id,
+    priority,
+    request.callbackUrl,
+    runAt ?? undefined,
+    undefined,
+    request.archive,
   );
+
+  await addDownloadJob({
+    jobId,
+    fileId: request.fileId,
+    userId: principal.id,
+    idempotencyKey: request.idempotencyKey,
+    priority,
+    runAt: runAt ?? undefined,
+    admitOnStart: runAt !== null,
+    createdAt: job.createdAt,
+  });
+
+  return { job };
 };
 
+// Error response for a rejected download job
+const rejectDownloadJob = (c: Context, rejection: DownloadJobRejection) =>
+  rejection.status === 429
+    ? c.json(
+        { error: rejection.error, message: rejection.message, retryAfter: 30 },
+        429,
+      )
+    : c.json(
+        {
+          error: rejection.error,
+          message: rejection.message,
+          requestId: c.get("requestId"),
+        },
+        rejection.status,
+      );
+
 // SSE update interface
 interface SSEUpdate {
   status?: string;
   progress?: number;
-  downloadUrl?: string;
-  error?: string;
+  downloadUrl?: string | null;
+  error?: string | null;
+  errorCode?: JobErrorCode | "" | null;
   canRetry?: boolean;
+  runAt?: number | null;
+  queuePosition?: number | null;
+  estimatedStartAt?: number | null;
+  estimatedCompletionAt?: number | null;
 }
 
+// Max jobs in one multiplexed SSE stream
+const MAX_MULTIPLEXED_JOBS = 50;
+
+// How often SSE streams refresh queue positions and ETAs
+const ESTIMATE_REFRESH_MS = 5000;
+// ETA shifts below this aren't worth an event
+const ESTIMATE_TOLERANCE_MS = 2000;
+
+// Map a job update to its SSE event name
+const getSSEEventType = (update: SSEUpdate): string => {
+  switch (update.status) {
+    case "completed":
+      return "complete";
+    case "failed":
+      return "error";
+    case "cancelled":
+      return "cancelled";
+    case "scheduled":
+    case "queued":
+    case "processing":
+      return "status";
+    default:
+      return "progress";
+  }
+};
+
+const isSameEstimate = (a: JobEstimate, b: JobEstimate): boolean => {
+  const isClose = (x: number | null, y: number | null) =>
+    x === null || y === null
+      ? x === y
+      : Math.abs(x - y) < ESTIMATE_TOLERANCE_MS;
+  return (
+    a.queuePosition === b.queuePosition &&
+    isClose(a.estimatedStartAt, b.estimatedStartAt) &&
+    isClose(a.estimatedCompletionAt, b.estimatedCompletionAt)
+  );
+};
+
+// Queue position / ETA refreshes for the jobs of one SSE stream. A refresh
+// only goes out when the estimate changed, and only while the job is still
+// in the status last sent to the client, so a stale read never rolls back a
+// newer status event.
+const createEstimateTracker = () => {
+  const sentStatuses = new Map<string, string>();
+  const sentEstimates = new Map<string, JobEstimate>();
+  let isRefreshing = false;
+
+  return {
+    // Record a status (and estimate) forwarded to the client
+    noteSent: (jobId: string, update: SSEUpdate) => {
+      if (update.status) sentStatuses.set(jobId, update.status);
+      if (update.queuePosition !== undefined) {
+        sentEstimates.set(jobId, {
+          queuePosition: update.queuePosition,
+          estimatedStartAt: update.estimatedStartAt ?? null,
+          estimatedCompletionAt: update.estimatedCompletionAt ?? null,
+        });
+      }
+    },
+
+    // Updates to send for the given jobs' changed estimates
+    refresh: async (
+      jobIds: string[],
+    ): Promise<{ jobId: string; update: SSEUpdate }[]> => {
+      // Skip a tick rather than pile up behind a slow one
+      if (isRefreshing) return [];
+      isRefreshing = true;
+      try {
+        const jobs = (await Promise.all(jobIds.map(getJob))).filter(
+          (job): job is JobData =>
+            job !== null &&
+            !isTerminalStatus(job.status) &&
+            sentStatuses.get(job.id) === job.status,
+        );
+        const estimates = await estimateJobs(jobs);
+        return jobs.flatMap((job, i) => {
+          const estimate = estimates[i];
+          const sent = sentEstimates.get(job.id);
+          if (sent && isSameEstimate(sent, estimate)) return [];
+          return [
+            { jobId: job.id, update: { status: job.status, ...estimate } },
+          ];
+        });
+      } finally {
+        isRefreshing = false;
+      }
+    },
+  };
+};
+
+const isTerminalUpdate = (update: SSEUpdate): boolean =>
+  update.status === "completed" ||
+  update.status === "failed" ||
+  update.status === "cancelled";
+
+// The job's current state as a single update
+const toSnapshotUpdate = (job: JobData): SSEUpdate => {
+  if (job.status === "completed") {
+    return { status: job.status, progress: 100, downloadUrl: job.downloadUrl };
+  }
+  if (isTerminalStatus(job.status)) {
+    return {
+      status: job.status,
+      error: job.error,
+      errorCode: job.errorCode,
+      canRetry: job.canRetry,
+    };
+  }
+  if (job.status === "scheduled") {
+    return { status: job.status, runAt: job.runAt };
+  }
+  return { status: job.status, progress: job.progress };
+};
+
+// Unwrap a `job:updates:*` message published by publishJobEvent
+const parseJobEventMessage = (message: string): JobEvent => {
+  const envelope = JSON.parse(message) as { id: string; data: unknown };
+  return { id: envelope.id, data: JSON.stringify(envelope.data) };
+};
+
+// Unwrap a `batch:updates:*` message (a child's event plus its jobId)
+const parseBatchEventMessage = (
+  message: string,
+): { jobId: string; event: JobEvent } => {
+  const envelope = JSON.parse(message) as {
+    jobId: string;
+    id: string;
+    data: unknown;
+  };
+  return {
+    jobId: envelope.jobId,
+    event: { id: envelope.id, data: JSON.stringify(envelope.data) },
+  };
+};
+
 // ============ Legacy Routes (Kept for Backward Compatibility) ============
 
 const downloadInitiateRoute = createRoute({
@@ -76,7 +537,8 @@ const downloadInitiateRoute = createRoute({
   path: "/v1/download/initiate",
   tags: ["Download (Legacy)"],
   summary: "Initiate download job (Legacy)",
-  description: "Legacy endpoint - Initiates a download job for multiple IDs",
+  description: `Legacy endpoint - Initiates a download job for multiple IDs.
+    Creates a batch like POST /v1/download/batch in the caller's default lane; the returned jobId is the batchId.`,
   request: {
     body: {
       content: {
@@ -134,6 +596,10 @@ const downloadCheckRoute = createRoute({
       description: "Invalid request",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    503: {
+      description: "Storage is unavailable",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
@@ -166,6 +632,10 @@ const downloadStartRoute = createRoute({
       description: "Invalid request",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    503: {
+      description: "Storage is unavailable",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
   },
 });
 
@@ -177,16 +647,12 @@ const asyncDownloadRoute = createRoute({
   tags: ["Download (Async)"],
   summary: "Create async download job",
   description: `Creates a non-blocking download job. Returns immediately with jobId and URLs for status polling and SSE subscription.
-    Use X-Idempotency-Key header to prevent duplicate jobs on retries.`,
+    Send an Idempotency-Key header to make retries safe: a replay returns the original response, a different request with the same key gets 422.
+    Pass callbackUrl to receive a signed webhook when the job completes or finally fails.
+    Pass priority to pick a lane (interactive, normal, bulk); callers may not go above their tier's lane.
+    Pass runAt or delayMs to schedule the job for later; it stays "scheduled" until then and can be rescheduled or cancelled. It takes a concurrency slot when it starts, not when it is created.`,
   request: {
-    headers: z.object({
-      "x-idempotency-key": z.string().optional().openapi({
-        description: "Optional idempotency key to prevent duplicate jobs",
-      }),
-      "x-user-id": z.string().optional().openapi({
-        description: "Optional user ID for rate limiting",
-      }),
-    }),
+    headers: IdempotencyHeadersSchema,
     body: {
       content: {
         "application/json": {
@@ -204,14 +670,6 @@ const asyncDownloadRoute = createRoute({
         },
       },
     },
-    200: {
-      description: "Existing job returned (idempotent request)",
-      content: {
-        "application/json": {
-          schema: AsyncDownloadResponseSchema,
-        },
-      },
-    },
     429: {
       description: "Rate limited - too many concurrent downloads",
       content: {
@@ -221,7 +679,20 @@ const asyncDownloadRoute = createRoute({
       },
     },
     400: {
-      description: "Invalid request",
+      description:
+        "Invalid request or Idempotency-Key, callbackUrl given while webhooks are disabled or pointing at a non-public address, or start time too far ahead",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Requested priority lane is not allowed for the caller",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "A request with the same Idempotency-Key is still running",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "Idempotency-Key was already used for a different request",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
@@ -248,7 +719,42 @@ const jobStatusRoute = createRoute({
       },
     },
     404: {
-      description: "Job not found",
+      description: "Job not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const listJobsRoute = createRoute({
+  method: "get",
+  path: "/v1/download/jobs",
+  tags: ["Download (Async)"],
+  summary: "List my jobs",
+  description:
+    "Lists the caller's jobs sorted by creation time, optionally filtered by status. Paginate with the returned cursor.",
+  request: {
+    query: z.object({
+      status: z.enum(JOB_STATUSES).optional(),
+      order: z.enum(["asc", "desc"]).default("desc").openapi({
+        description: "Sort by createdAt (newest first by default)",
+      }),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      cursor: z.string().optional().openapi({
+        description: "nextCursor from the previous page",
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Page of jobs",
+      content: {
+        "application/json": {
+          schema: JobListResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid cursor",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
@@ -260,7 +766,8 @@ const sseSubscribeRoute = createRoute({
   tags: ["Download (Async)"],
   summary: "Subscribe to job updates (SSE)",
   description: `Server-Sent Events stream for real-time job progress updates.
-    Events: status, progress, complete, error`,
+    Events: status, progress, complete, error, cancelled. Each update carries an id;
+    reconnect with the Last-Event-ID header to replay missed updates before live ones.`,
   request: {
     params: z.object({
       jobId: z.string(),
@@ -276,47 +783,448 @@ const sseSubscribeRoute = createRoute({
       },
     },
     404: {
-      description: "Job not found",
+      description: "Job not found or owned by another user",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
 });
 
-// ============ Route Handlers ============
-
-// Legacy: Initiate
-downloadRouter.openapi(downloadInitiateRoute, (c) => {
-  const { file_ids } = c.req.valid("json");
-  const jobId = crypto.randomUUID();
-  return c.json(
-    {
-      jobId,
-      status: "queued" as const,
-      totalFileIds: file_ids.length,
+const sseMultiplexRoute = createRoute({
+  method: "get",
+  path: "/v1/download/subscribe",
+  tags: ["Download (Async)"],
+  summary: "Subscribe to many jobs (SSE)",
+  description: `One Server-Sent Events stream for several jobs, so clients don't need a connection per job.
+    Starts with a snapshot of every job, then live updates. Events are the same as the single-job stream
+    with jobId added to the data; a "missing" event reports ids that don't exist or belong to another user.
+    Jobs are dropped once they reach a terminal state and the stream ends when none are left.`,
+  request: {
+    query: z.object({
+      jobIds: z
+        .string()
+        .transform((val) => [
+          ...new Set(
+            val
+              .split(",")
+              .map((id) => id.trim())
+              .filter(Boolean),
+          ),
+        ])
+        .pipe(z.array(z.string()).min(1).max(MAX_MULTIPLEXED_JOBS))
+        .openapi({
+          type: "string",
+          description: `Comma-separated job IDs (max ${MAX_MULTIPLEXED_JOBS.toString()})`,
+        }),
+    }),
+  },
+  responses: {
+    200: {
+      description: "SSE stream",
+      content: {
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
     },
-    200,
-  );
+    400: {
+      description: "Missing or too many job IDs",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
 });
 
-// Legacy: Check
-downloadRouter.openapi(downloadCheckRoute, async (c) => {
-  const { sentry_test } = c.req.valid("query");
-  const { file_id } = c.req.valid("json");
+const cancelJobRoute = createRoute({
+  method: "delete",
+  path: "/v1/download/:jobId",
+  tags: ["Download (Async)"],
+  summary: "Cancel download job",
+  description: `Cancels a scheduled, queued or processing job and frees the user's concurrency slot.
+    Scheduled and queued jobs are removed from the queue; active jobs are stopped by the worker at the next progress checkpoint.`,
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Job cancelled",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Job already finished",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
 
-  if (sentry_test === "true") {
-    throw new Error(
-      `Sentry test error triggered for file_id=${file_id.toString()}`,
-    );
-  }
+const webhookDeliveriesRoute = createRoute({
+  method: "get",
+  path: "/v1/download/:jobId/webhooks",
+  tags: ["Download (Async)"],
+  summary: "Webhook delivery history",
+  description:
+    "Lists every attempt to deliver the job's callbackUrl webhook, oldest first",
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Delivery attempts",
+      content: {
+        "application/json": {
+          schema: WebhookDeliveriesResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
 
-  const s3Result = await checkS3Availability(file_id);
-  return c.json({ file_id, ...s3Result }, 200);
+const retryJobRoute = createRoute({
+  method: "post",
+  path: "/v1/download/:jobId/retry",
+  tags: ["Download (Async)"],
+  summary: "Retry failed download job",
+  description: `Re-enqueues a failed job under the same jobId once its automatic retries are exhausted.
+    Only allowed when the job reports canRetry, which is set on the final failure only; a job waiting for an automatic retry is rejected with 409. Attempts carry over, and the same per-user concurrency (batch files take no slot) and Idempotency-Key rules as job creation apply.`,
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+    headers: IdempotencyHeadersSchema,
+  },
+  responses: {
+    202: {
+      description: "Job re-enqueued",
+      content: {
+        "application/json": {
+          schema: AsyncDownloadResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Job not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    400: {
+      description: "Invalid Idempotency-Key",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description:
+        "Job is not in a retryable state, or a request with the same Idempotency-Key is still running",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "Idempotency-Key was already used for a different request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    429: {
+      description: "Rate limited - too many concurrent downloads",
+      content: {
+        "application/json": {
+          schema: RateLimitErrorSchema,
+        },
+      },
+    },
+  },
 });
 
-// Legacy: Start (blocking)
-downloadRouter.openapi(downloadStartRoute, async (c) => {
-  const { file_id } = c.req.valid("json");
-  const startTime = Date.now();
+const rescheduleJobRoute = createRoute({
+  method: "post",
+  path: "/v1/download/:jobId/reschedule",
+  tags: ["Download (Async)"],
+  summary: "Reschedule download job",
+  description: `Moves a scheduled or queued job to a new start time before a worker picks it up.
+    A start time in the past (or delayMs 0) queues the job to run right away.`,
+  request: {
+    params: z.object({
+      jobId: z.string(),
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: RescheduleJobRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Job rescheduled",
+      content: {
+        "application/json": {
+          schema: JobStatusResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid request or start time too far ahead",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Job not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Job already started or finished",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const batchDownloadRoute = createRoute({
+  method: "post",
+  path: "/v1/download/batch",
+  tags: ["Download (Async)"],
+  summary: "Create batch download",
+  description: `Creates one download job per file under a parent batch, for callers that request many files at once.
+    Each file is an ordinary job (status, SSE, cancel, retry); the batch reports aggregate progress, per-file status and partial success.
+    Files don't take per-user concurrency slots; instead each tier has a maximum number of distinct files per batch. Idempotency-Key works as for single jobs.`,
+  request: {
+    headers: IdempotencyHeadersSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: BatchDownloadRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: "Batch created",
+      content: {
+        "application/json": {
+          schema: BatchDownloadResponseSchema,
+        },
+      },
+    },
+    400: {
+      description:
+        "Invalid request or Idempotency-Key, or more files than the caller's tier allows",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Requested priority lane is not allowed for the caller",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "A request with the same Idempotency-Key is still running",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "Idempotency-Key was already used for a different request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const batchStatusRoute = createRoute({
+  method: "get",
+  path: "/v1/download/batch/:batchId",
+  tags: ["Download (Async)"],
+  summary: "Get batch status",
+  description:
+    "Aggregate status and progress of a batch, with the status of every file",
+  request: {
+    params: z.object({
+      batchId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Batch status",
+      content: {
+        "application/json": {
+          schema: BatchStatusResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Batch not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const batchSubscribeRoute = createRoute({
+  method: "get",
+  path: "/v1/download/batch/:batchId/subscribe",
+  tags: ["Download (Async)"],
+  summary: "Subscribe to batch updates (SSE)",
+  description: `Server-Sent Events stream for a whole batch.
+    Starts with a "snapshot" event (the batch status response), then sends a "file" event for every update of a file's job
+    (job stream fields plus jobId and fileId) and a "batch" event whenever the aggregate status, progress or counts change.
+    The stream ends once every file finished; reconnecting starts with a fresh snapshot.`,
+  request: {
+    params: z.object({
+      batchId: z.string(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "SSE stream",
+      content: {
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
+    },
+    404: {
+      description: "Batch not found or owned by another user",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+const archiveDownloadRoute = createRoute({
+  method: "post",
+  path: "/v1/download/archive",
+  tags: ["Download (Async)"],
+  summary: "Create archive download job",
+  description: `Creates one job that bundles several files into a single ZIP or tar.gz archive with one download URL.
+    The job fails with not_found if any file is missing. Progress follows the bytes read from storage.
+    Otherwise it behaves like POST /v1/download: one concurrency slot, Idempotency-Key, callbackUrl, priority and scheduling.`,
+  request: {
+    headers: IdempotencyHeadersSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: ArchiveDownloadRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: "Job created successfully",
+      content: {
+        "application/json": {
+          schema: AsyncDownloadResponseSchema,
+        },
+      },
+    },
+    429: {
+      description: "Rate limited - too many concurrent downloads",
+      content: {
+        "application/json": {
+          schema: RateLimitErrorSchema,
+        },
+      },
+    },
+    400: {
+      description:
+        "Invalid request or Idempotency-Key, callbackUrl given while webhooks are disabled or pointing at a non-public address, or start time too far ahead",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "Requested priority lane is not allowed for the caller",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "A request with the same Idempotency-Key is still running",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "Idempotency-Key was already used for a different request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ============ Route Handlers ============
+
+// Legacy: Initiate (backed by a batch)
+downloadRouter.openapi(downloadInitiateRoute, async (c) => {
+  const { file_ids } = c.req.valid("json");
+  const principal = c.get("principal");
+  const batchSizeError = getBatchSizeError(principal, file_ids);
+  if (batchSizeError) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: batchSizeError,
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
+  }
+
+  const { batch } = await createBatch(
+    principal.id,
+    getDefaultPriority(principal),
+    file_ids,
+  );
+  return c.json(
+    {
+      jobId: batch.id,
+      status: "queued" as const,
+      totalFileIds: file_ids.length,
+      statusUrl: `/v1/download/batch/${batch.id}`,
+      subscribeUrl: `/v1/download/batch/${batch.id}/subscribe`,
+    },
+    200,
+  );
+});
+
+// Availability for the legacy routes, or null while storage is down (they
+// answer 503 instead of an unhandled 500)
+const checkLegacyAvailability = async (fileId: number) => {
+  try {
+    return await checkS3Availability(fileId);
+  } catch (err) {
+    console.error(
+      `[Download] Storage check failed for file_id=${fileId.toString()}:`,
+      err,
+    );
+    return null;
+  }
+};
+
+const storageUnavailable = (c: Context) =>
+  c.json(
+    {
+      error: "Service Unavailable",
+      message: "Storage is unavailable, try again later",
+      requestId: c.get("requestId"),
+    },
+    503,
+  );
+
+// Legacy: Check
+downloadRouter.openapi(downloadCheckRoute, async (c) => {
+  const { sentry_test } = c.req.valid("query");
+  const { file_id } = c.req.valid("json");
+
+  if (sentry_test === "true") {
+    throw new Error(
+      `Sentry test error triggered for file_id=${file_id.toString()}`,
+    );
+  }
+
+  const s3Result = await checkLegacyAvailability(file_id);
+  if (!s3Result) return storageUnavailable(c);
+  return c.json({ file_id, ...s3Result }, 200);
+});
+
+// Legacy: Start (blocking)
+downloadRouter.openapi(downloadStartRoute, async (c) => {
+  const { file_id } = c.req.valid("json");
+  const startTime = Date.now();
 
   const delayMs = getRandomDelay();
   console.log(
@@ -325,7 +1233,8 @@ downloadRouter.openapi(downloadStartRoute, async (c) => {
 
   await sleep(delayMs);
 
-  const s3Result = await checkS3Availability(file_id);
+  const s3Result = await checkLegacyAvailability(file_id);
+  if (!s3Result) return storageUnavailable(c);
   const processingTimeMs = Date.now() - startTime;
 
   console.log(
@@ -361,95 +1270,236 @@ downloadRouter.openapi(downloadStartRoute, async (c) => {
 
 // New: Async Download (non-blocking)
 downloadRouter.openapi(asyncDownloadRoute, async (c) => {
-  const { file_id } = c.req.valid("json");
-  const idempotencyKey = c.req.header("x-idempotency-key");
-  const userId = getUserId(c);
-
-  // Check idempotency key first
-  if (idempotencyKey) {
-    const existingJobId = await checkIdempotencyKey(idempotencyKey);
-    if (existingJobId) {
-      const existingJob = await getJob(existingJobId);
-      if (existingJob) {
-        console.log(
-          `[Download] Returning existing job ${existingJobId} for idempotency key`,
-        );
-        return c.json(
-          {
-            jobId: existingJob.id,
-            fileId: existingJob.fileId,
-            status: existingJob.status === "queued" ? "queued" : "processing",
-            isNew: false,
-            createdAt: existingJob.createdAt,
-            statusUrl: `/v1/download/status/${existingJob.id}`,
-            subscribeUrl: `/v1/download/subscribe/${existingJob.id}`,
-          },
-          200,
-        );
-      }
-    }
+  const { file_id, ...request } = c.req.valid("json");
+  const principal = c.get("principal");
+
+  const created = await createDownloadJob(principal, {
+    ...request,
+    fileId: file_id,
+    idempotencyKey: c.get("idempotencyKey"),
+  });
+  if ("rejection" in created) {
+    return rejectDownloadJob(c, created.rejection);
   }
 
-  // Check rate limit
-  const rateLimit = await checkUserRateLimit(userId);
-  if (!rateLimit.allowed) {
+  const { job } = created;
+  console.log(
+    `[Download] Created async job ${job.id} for file_id=${file_id.toString()}, user=${principal.id}, priority=${job.priority}${job.runAt === null ? "" : `, runAt=${new Date(job.runAt).toISOString()}`}`,
+  );
+
+  return c.json(toAsyncDownloadResponse(job, true), 202);
+});
+
+// New: Job Status (polling)
+downloadRouter.openapi(jobStatusRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+
+  const job = await getAccessibleJob(c, jobId, "status");
+  if (!job) {
     return c.json(
       {
-        error: "Too Many Requests",
-        message: `Maximum ${env.MAX_CONCURRENT_DOWNLOADS_PER_USER.toString()} concurrent downloads allowed`,
-        retryAfter: 30,
+        error: "Not Found",
+        message: "Job not found or expired",
+        requestId: c.get("requestId"),
       },
-      429,
+      404,
     );
   }
 
-  // Create new job
-  const jobId = crypto.randomUUID();
-  const now = Date.now();
+  return c.json(toJobStatusResponse(job, await estimateJobStatus(job)), 200);
+});
 
-  // Create job in Redis
-  await createJob(jobId, file_id, userId);
+// New: List Jobs
+downloadRouter.openapi(listJobsRoute, async (c) => {
+  const { status, order, limit, cursor: cursorToken } = c.req.valid("query");
 
-  // Set idempotency key if provided
-  if (idempotencyKey) {
-    await setIdempotencyKey(idempotencyKey, jobId);
+  const cursor = cursorToken ? decodeJobListCursor(cursorToken) : undefined;
+  if (cursor === null) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: "Invalid cursor",
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
   }
 
-  // Increment user active jobs
-  await incrementUserActiveJobs(userId);
+  const { jobs, nextCursor } = await listUserJobs(c.get("principal").id, {
+    status,
+    order,
+    limit,
+    cursor,
+  });
 
-  // Add to queue
-  await addDownloadJob({
+  const estimates = await estimateJobs(jobs);
+  return c.json(
+    {
+      jobs: jobs.map((job, i) => toJobStatusResponse(job, estimates[i])),
+      nextCursor,
+    },
+    200,
+  );
+});
+
+// New: Cancel Job
+downloadRouter.openapi(cancelJobRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+
+  const job = await getAccessibleJob(c, jobId, "cancel");
+  if (!job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Job not found or expired",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  if (isTerminalStatus(job.status)) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job is already ${job.status}`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+
+  // Flag first so a worker picking the job up right now still sees it
+  await requestJobCancellation(jobId);
+  const removedFromQueue = await removeQueuedDownloadJob(jobId);
+
+  await markJobCancelled(jobId);
+  await releaseUserJob(job.userId, jobId);
+
+  console.log(
+    `[Download] Cancelled job ${jobId} (${removedFromQueue ? "removed from queue" : "signalled worker"})`,
+  );
+
+  const cancelledJob = (await getJob(jobId)) ?? job;
+  return c.json(
+    toJobStatusResponse(cancelledJob, await estimateJobStatus(cancelledJob)),
+    200,
+  );
+});
+
+// New: Webhook Deliveries
+downloadRouter.openapi(webhookDeliveriesRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+
+  const job = await getAccessibleJob(c, jobId, "webhooks");
+  if (!job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Job not found or expired",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  const deliveries = await getWebhookDeliveries(jobId);
+  return c.json(
+    { jobId: job.id, callbackUrl: job.callbackUrl, deliveries },
+    200,
+  );
+});
+
+// New: Retry Job
+downloadRouter.openapi(retryJobRoute, async (c) => {
+  const { jobId } = c.req.valid("param");
+  const idempotencyKey = c.get("idempotencyKey");
+
+  const job = await getAccessibleJob(c, jobId, "retry");
+  if (!job) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Job not found or expired",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  // Jobs waiting for an automatic retry are queued with the last error
+  if (job.status === "queued" && job.errorCode) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: "Job is already scheduled for an automatic retry",
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+
+  // canRetry is only set once automatic retries are exhausted
+  if (job.status !== "failed" || !job.canRetry) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job cannot be retried (status=${job.status})`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+
+  // The retried job takes one of the owner's slots again, unless it is a
+  // batch file (those never take one)
+  const admission =
+    job.batchId === null
+      ? await admitUserJob(job.userId, jobId)
+      : { admitted: true };
+  if (!admission.admitted) {
+    return c.json(
+      {
+        error: "Too Many Requests",
+        message: `Maximum ${env.MAX_CONCURRENT_DOWNLOADS_PER_USER.toString()} concurrent downloads allowed`,
+        retryAfter: 30,
+      },
+      429,
+    );
+  }
+
+  // Reset job in Redis
+  await resetJobForRetry(jobId);
+
+  // Re-enqueue under the same jobId
+  await requeueDownloadJob({
     jobId,
-    fileId: file_id,
-    userId,
+    fileId: job.fileId,
+    userId: job.userId,
     idempotencyKey,
-    createdAt: now,
+    priority: job.priority,
+    createdAt: job.createdAt,
+    previousAttempts: job.attempts,
   });
+  // The user retried it themselves - nothing left for an admin to replay
+  await removeDeadLetterJob(jobId);
+  jobsRetriedTotal.inc({ trigger: "manual" });
 
   console.log(
-    `[Download] Created async job ${jobId} for file_id=${file_id.toString()}, user=${userId}`,
+    `[Download] Retrying job ${jobId} for file_id=${job.fileId.toString()} (previous attempts: ${job.attempts.toString()})`,
   );
 
   return c.json(
-    {
-      jobId,
-      fileId: file_id,
-      status: "queued" as const,
-      isNew: true,
-      createdAt: now,
-      statusUrl: `/v1/download/status/${jobId}`,
-      subscribeUrl: `/v1/download/subscribe/${jobId}`,
-    },
+    toAsyncDownloadResponse({ ...job, status: "queued", runAt: null }, false),
     202,
   );
 });
 
-// New: Job Status (polling)
-downloadRouter.openapi(jobStatusRoute, async (c) => {
+// New: Reschedule Job
+downloadRouter.openapi(rescheduleJobRoute, async (c) => {
   const { jobId } = c.req.valid("param");
 
-  const job = await getJob(jobId);
+  const job = await getAccessibleJob(c, jobId, "reschedule");
   if (!job) {
     return c.json(
       {
@@ -461,18 +1511,54 @@ downloadRouter.openapi(jobStatusRoute, async (c) => {
     );
   }
 
+  const now = Date.now();
+  const runAt = resolveRunAt(c.req.valid("json"), now);
+  if (isBeyondScheduleHorizon(runAt, now)) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: `Jobs can be scheduled at most ${Math.floor(env.SCHEDULE_MAX_DELAY_MS / 1000).toString()}s ahead`,
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
+  }
+
+  // A job moved to later holds no slot until a worker starts it; batch
+  // files never take one
+  const admitOnStart = job.batchId === null && runAt !== null;
+
+  // Only jobs still waiting in the queue can move
+  const moved =
+    (job.status === "scheduled" || job.status === "queued") &&
+    (await rescheduleDownloadJob(jobId, runAt, admitOnStart));
+  if (!moved) {
+    return c.json(
+      {
+        error: "Conflict",
+        message: `Job can no longer be rescheduled (status=${job.status})`,
+        requestId: c.get("requestId"),
+      },
+      409,
+    );
+  }
+
+  await rescheduleJob(jobId, runAt);
+
+  if (admitOnStart) {
+    await releaseUserJob(job.userId, jobId);
+  }
+
+  console.log(
+    `[Download] Rescheduled job ${jobId} to ${runAt === null ? "run now" : new Date(runAt).toISOString()}`,
+  );
+
+  const rescheduledJob = (await getJob(jobId)) ?? job;
   return c.json(
-    {
-      jobId: job.id,
-      fileId: job.fileId,
-      status: job.status,
-      progress: job.progress,
-      downloadUrl: job.downloadUrl,
-      error: job.error,
-      canRetry: job.canRetry,
-      createdAt: job.createdAt,
-      updatedAt: job.updatedAt,
-    },
+    toJobStatusResponse(
+      rescheduledJob,
+      await estimateJobStatus(rescheduledJob),
+    ),
     200,
   );
 });
@@ -480,9 +1566,12 @@ downloadRouter.openapi(jobStatusRoute, async (c) => {
 // New: SSE Subscribe (real-time updates)
 downloadRouter.openapi(sseSubscribeRoute, async (c) => {
   const { jobId } = c.req.valid("param");
+  const lastEventId = c.req.header("last-event-id");
+  const resumeFrom =
+    lastEventId && isValidJobEventId(lastEventId) ? lastEventId : null;
 
   // Verify job exists
-  const job = await getJob(jobId);
+  const job = await getAccessibleJob(c, jobId, "subscribe");
   if (!job) {
     return c.json(
       {
@@ -494,115 +1583,574 @@ downloadRouter.openapi(sseSubscribeRoute, async (c) => {
     );
   }
 
-  // If job is already completed or failed, send final state
-  if (job.status === "completed" || job.status === "failed") {
-    return streamSSE(c, async (stream) => {
-      const eventType = job.status === "completed" ? "complete" : "error";
-      const data =
-        job.status === "completed"
-          ? { status: job.status, progress: 100, downloadUrl: job.downloadUrl }
-          : { status: job.status, error: job.error, canRetry: job.canRetry };
+  return streamSSE(c, async (stream) => {
+    const releaseConnection = trackSSEConnection();
+    let unsubscribe: (() => void) | null = null;
+    let isActive = true;
+    let lastSentId = resumeFrom;
+    const estimates = createEstimateTracker();
+    // Live events that arrive while history is being replayed
+    let pending: JobEvent[] | null = [];
+    let resolveDone: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      resolveDone = resolve;
+    });
+
+    const close = () => {
+      if (!isActive) return;
+      isActive = false;
+      unsubscribe?.();
+      releaseConnection();
+      resolveDone();
+    };
 
-      await stream.writeSSE({
-        event: eventType,
-        data: JSON.stringify(data),
-      });
+    // Writes are chained so events leave in the order they were sent
+    let writeChain = Promise.resolve();
+    const send = (event: string, data: string, id?: string) => {
+      writeChain = writeChain
+        .then(() => stream.writeSSE({ event, data, id }))
+        .catch((err: unknown) => {
+          console.error("[SSE] Error writing to stream:", err);
+          close();
+        });
+    };
+
+    // Emit a recorded update once, closing the stream on terminal states
+    const sendJobEvent = (event: JobEvent) => {
+      if (!isActive) return;
+      if (lastSentId && compareJobEventIds(event.id, lastSentId) <= 0) return;
+      lastSentId = event.id;
+
+      const update = JSON.parse(event.data) as SSEUpdate;
+      estimates.noteSent(jobId, update);
+      send(getSSEEventType(update), event.data, event.id);
+      if (isTerminalUpdate(update)) {
+        close();
+      }
+    };
+
+    // Push the job's queue position / ETA when it changed
+    const refreshEstimate = async () => {
+      const updates = await estimates.refresh([jobId]);
+      for (const { update } of updates) {
+        if (!isActive) return;
+        estimates.noteSent(jobId, update);
+        send(getSSEEventType(update), JSON.stringify(update));
+      }
+    };
+
+    // Handle client disconnect
+    stream.onAbort(() => {
+      close();
+      console.log(`[SSE] Client disconnected from job ${jobId}`);
     });
-  }
 
-  // Stream real-time updates via Redis pub/sub
+    try {
+      // Subscribe before reading history so nothing falls in between
+      unsubscribe = await subscribeChannel(
+        RedisKeys.jobUpdates(jobId),
+        (message) => {
+          try {
+            const event = parseJobEventMessage(message);
+            if (pending) {
+              pending.push(event);
+            } else {
+              sendJobEvent(event);
+            }
+          } catch (err) {
+            console.error("[SSE] Error processing message:", err);
+          }
+        },
+      );
+      // Client left while the subscription was being set up
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- close() can run during the await
+      if (!isActive) unsubscribe();
+
+      // Replay what the client missed, or start from a snapshot
+      const history = resumeFrom
+        ? await getJobEventsSince(jobId, resumeFrom)
+        : null;
+      if (!history || history.truncated) {
+        // The snapshot stands in for every event up to the latest id
+        const latestId = await getLatestJobEventId(jobId);
+        const current = (await getJob(jobId)) ?? job;
+        if (latestId) lastSentId = latestId;
+        const snapshot: SSEUpdate = {
+          ...toSnapshotUpdate(current),
+          ...(isTerminalStatus(current.status)
+            ? {}
+            : await estimateJobStatus(current)),
+        };
+        estimates.noteSent(jobId, snapshot);
+        send(
+          getSSEEventType(snapshot),
+          JSON.stringify(snapshot),
+          latestId ?? undefined,
+        );
+        if (isTerminalStatus(current.status)) {
+          close();
+        }
+      }
+      for (const event of history?.events ?? []) {
+        sendJobEvent(event);
+      }
+
+      // Switch to live updates
+      const buffered = pending;
+      pending = null;
+      buffered.forEach(sendJobEvent);
+
+      // Keep connection alive with heartbeat
+      const heartbeatInterval = setInterval(() => {
+        if (!isActive) {
+          clearInterval(heartbeatInterval);
+          return;
+        }
+        send("heartbeat", JSON.stringify({ timestamp: Date.now() }));
+      }, 15000);
+
+      // Resumed streams get their first estimate here instead of a snapshot
+      const onEstimateError = (err: unknown) => {
+        console.error(`[SSE] Failed to estimate job ${jobId}:`, err);
+      };
+      refreshEstimate().catch(onEstimateError);
+      const estimateInterval = setInterval(() => {
+        refreshEstimate().catch(onEstimateError);
+      }, ESTIMATE_REFRESH_MS);
+
+      // Hold the stream open until the job finishes or the client leaves
+      await done;
+      clearInterval(heartbeatInterval);
+      clearInterval(estimateInterval);
+    } finally {
+      close();
+    }
+    await writeChain;
+  });
+});
+
+downloadRouter.openapi(sseMultiplexRoute, (c) => {
+  const { jobIds } = c.req.valid("query");
+
   return streamSSE(c, async (stream) => {
-    // Create a dedicated Redis connection for subscription
-    const subscriber: Redis = new Redis({
-      host: env.REDIS_HOST,
-      port: env.REDIS_PORT,
-      password: env.REDIS_PASSWORD ?? undefined,
-      db: env.REDIS_DB,
-    });
+    const releaseConnection = trackSSEConnection();
 
-    const channel = RedisKeys.jobUpdates(jobId);
+    // Jobs still being watched and their channel subscriptions
+    const watching = new Set<string>();
+    const unsubscribes = new Map<string, () => void>();
+    const lastSentIds = new Map<string, string>();
+    const estimates = createEstimateTracker();
     let isActive = true;
+    let pending: { jobId: string; event: JobEvent }[] | null = [];
+    let resolveDone: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      resolveDone = resolve;
+    });
 
-    // Send initial status
-    await stream.writeSSE({
-      event: "status",
-      data: JSON.stringify({
-        status: job.status,
-        progress: job.progress,
-      }),
+    const close = () => {
+      if (!isActive) return;
+      isActive = false;
+      unsubscribes.forEach((unsubscribe) => {
+        unsubscribe();
+      });
+      unsubscribes.clear();
+      releaseConnection();
+      resolveDone();
+    };
+
+    let writeChain = Promise.resolve();
+    const send = (event: string, data: string) => {
+      writeChain = writeChain
+        .then(() => stream.writeSSE({ event, data }))
+        .catch((err: unknown) => {
+          console.error("[SSE] Error writing to stream:", err);
+          close();
+        });
+    };
+
+    const sendUpdate = (jobId: string, update: SSEUpdate) => {
+      estimates.noteSent(jobId, update);
+      send(getSSEEventType(update), JSON.stringify({ jobId, ...update }));
+    };
+
+    // Stop watching a job; the stream ends with the last one
+    const dropJob = (jobId: string) => {
+      if (!watching.delete(jobId)) return;
+      unsubscribes.get(jobId)?.();
+      unsubscribes.delete(jobId);
+      if (watching.size === 0) close();
+    };
+
+    const sendJobEvent = (jobId: string, event: JobEvent) => {
+      if (!isActive || !watching.has(jobId)) return;
+      const lastSentId = lastSentIds.get(jobId);
+      if (lastSentId && compareJobEventIds(event.id, lastSentId) <= 0) return;
+      lastSentIds.set(jobId, event.id);
+
+      const update = JSON.parse(event.data) as SSEUpdate;
+      sendUpdate(jobId, update);
+      if (isTerminalUpdate(update)) dropJob(jobId);
+    };
+
+    const subscribeJob = async (jobId: string) => {
+      const unsubscribe = await subscribeChannel(
+        RedisKeys.jobUpdates(jobId),
+        (message) => {
+          try {
+            const event = parseJobEventMessage(message);
+            if (pending) {
+              pending.push({ jobId, event });
+            } else {
+              sendJobEvent(jobId, event);
+            }
+          } catch (err) {
+            console.error("[SSE] Error processing message:", err);
+          }
+        },
+      );
+      // Dropped or disconnected while the subscription was being set up
+      if (isActive && watching.has(jobId)) {
+        unsubscribes.set(jobId, unsubscribe);
+      } else {
+        unsubscribe();
+      }
+    };
+
+    stream.onAbort(() => {
+      close();
+      console.log(
+        `[SSE] Client disconnected from ${jobIds.length.toString()} jobs`,
+      );
     });
 
-    // Subscribe to job updates
-    await subscriber.subscribe(channel);
+    try {
+      // Subscribe to every accessible job before taking snapshots
+      const accessible: string[] = [];
+      for (const jobId of jobIds) {
+        if (await getAccessibleJob(c, jobId, "subscribe")) {
+          accessible.push(jobId);
+          watching.add(jobId);
+        } else {
+          send("missing", JSON.stringify({ jobId }));
+        }
+      }
+      if (watching.size === 0) {
+        close();
+      } else {
+        await Promise.all(accessible.map(subscribeJob));
+      }
 
-    subscriber.on("message", (_channel: string, message: string) => {
-      if (!isActive) return;
+      // Snapshot of each job; terminal jobs are dropped right away
+      for (const jobId of accessible) {
+        const latestId = await getLatestJobEventId(jobId);
+        const current = await getJob(jobId);
+        if (latestId) lastSentIds.set(jobId, latestId);
+        if (!current) {
+          send("missing", JSON.stringify({ jobId }));
+          dropJob(jobId);
+          continue;
+        }
+        if (isTerminalStatus(current.status)) {
+          sendUpdate(jobId, toSnapshotUpdate(current));
+          dropJob(jobId);
+        } else {
+          sendUpdate(jobId, {
+            ...toSnapshotUpdate(current),
+            ...(await estimateJobStatus(current)),
+          });
+        }
+      }
 
-      try {
-        const update = JSON.parse(message) as SSEUpdate;
-        let eventType = "progress";
-
-        if (update.status === "completed") {
-          eventType = "complete";
-        } else if (update.status === "failed") {
-          eventType = "error";
-        } else if (
-          update.status === "queued" ||
-          update.status === "processing"
-        ) {
-          eventType = "status";
+      // Switch to live updates
+      const buffered = pending;
+      pending = null;
+      for (const { jobId, event } of buffered) {
+        sendJobEvent(jobId, event);
+      }
+
+      const heartbeatInterval = setInterval(() => {
+        if (!isActive) {
+          clearInterval(heartbeatInterval);
+          return;
         }
+        send("heartbeat", JSON.stringify({ timestamp: Date.now() }));
+      }, 15000);
 
-        stream
-          .writeSSE({
-            event: eventType,
-            data: message,
+      // Queue positions and ETAs of the jobs still being watched
+      const estimateInterval = setInterval(() => {
+        estimates
+          .refresh([...watching])
+          .then((updates) => {
+            for (const { jobId, update } of updates) {
+              if (isActive && watching.has(jobId)) sendUpdate(jobId, update);
+            }
           })
           .catch((err: unknown) => {
-            console.error("[SSE] Error writing to stream:", err);
+            console.error("[SSE] Failed to estimate jobs:", err);
           });
+      }, ESTIMATE_REFRESH_MS);
 
-        // Close stream on terminal states
-        if (update.status === "completed" || update.status === "failed") {
-          isActive = false;
-          subscriber.unsubscribe(channel).catch(() => {});
-          subscriber.quit().catch(() => {});
-        }
-      } catch (err) {
-        console.error("[SSE] Error processing message:", err);
-      }
+      await done;
+      clearInterval(heartbeatInterval);
+      clearInterval(estimateInterval);
+    } finally {
+      close();
+    }
+    await writeChain;
+  });
+});
+
+// New: Batch Download
+downloadRouter.openapi(batchDownloadRoute, async (c) => {
+  const { file_ids, priority: requestedPriority } = c.req.valid("json");
+  const principal = c.get("principal");
+
+  // Priority lane - the tier's lane or a lower one
+  const priority = requestedPriority ?? getDefaultPriority(principal);
+  const allowedPriorities = getAllowedPriorities(principal);
+  if (!allowedPriorities.includes(priority)) {
+    return c.json(
+      {
+        error: "Forbidden",
+        message: `Priority "${priority}" is not allowed; use one of: ${allowedPriorities.join(", ")}`,
+        requestId: c.get("requestId"),
+      },
+      403,
+    );
+  }
+
+  const batchSizeError = getBatchSizeError(principal, file_ids);
+  if (batchSizeError) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: batchSizeError,
+        requestId: c.get("requestId"),
+      },
+      400,
+    );
+  }
+
+  const { batch, jobs } = await createBatch(
+    principal.id,
+    priority,
+    file_ids,
+    c.get("idempotencyKey"),
+  );
+
+  return c.json(
+    {
+      batchId: batch.id,
+      status: "queued" as const,
+      totalFiles: batch.totalFiles,
+      priority,
+      createdAt: batch.createdAt,
+      statusUrl: `/v1/download/batch/${batch.id}`,
+      subscribeUrl: `/v1/download/batch/${batch.id}/subscribe`,
+      jobs,
+    },
+    202,
+  );
+});
+
+downloadRouter.openapi(batchStatusRoute, async (c) => {
+  const { batchId } = c.req.valid("param");
+
+  const batch = await getAccessibleBatch(c, batchId, "status");
+  if (!batch) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Batch not found or expired",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  const jobs = await getBatchJobs(batchId);
+  return c.json(toBatchStatusResponse(batch, jobs), 200);
+});
+
+downloadRouter.openapi(batchSubscribeRoute, async (c) => {
+  const { batchId } = c.req.valid("param");
+
+  const batch = await getAccessibleBatch(c, batchId, "subscribe");
+  if (!batch) {
+    return c.json(
+      {
+        error: "Not Found",
+        message: "Batch not found or expired",
+        requestId: c.get("requestId"),
+      },
+      404,
+    );
+  }
+
+  return streamSSE(c, async (stream) => {
+    const releaseConnection = trackSSEConnection();
+    let unsubscribe: (() => void) | null = null;
+    let isActive = true;
+    // Current state and last sent event id of every file
+    const files = new Map<
+      string,
+      { fileId: number; status: JobStatus; progress: number }
+    >();
+    const lastSentIds = new Map<string, string>();
+    let lastSummary = "";
+    let pending: { jobId: string; event: JobEvent }[] | null = [];
+    let resolveDone: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      resolveDone = resolve;
     });
 
-    // Handle client disconnect
-    stream.onAbort(() => {
+    const close = () => {
+      if (!isActive) return;
       isActive = false;
-      subscriber.unsubscribe(channel).catch(() => {});
-      subscriber.quit().catch(() => {});
-      console.log(`[SSE] Client disconnected from job ${jobId}`);
+      unsubscribe?.();
+      releaseConnection();
+      resolveDone();
+    };
+
+    let writeChain = Promise.resolve();
+    const send = (event: string, data: string) => {
+      writeChain = writeChain
+        .then(() => stream.writeSSE({ event, data }))
+        .catch((err: unknown) => {
+          console.error("[SSE] Error writing to stream:", err);
+          close();
+        });
+    };
+
+    // Aggregate state, sent only when it changed; ends the stream once
+    // every file finished
+    const sendSummary = () => {
+      const summary = summarizeBatch([...files.values()]);
+      const data = JSON.stringify({
+        batchId,
+        ...summary,
+        totalFiles: batch.totalFiles,
+      });
+      if (data !== lastSummary) {
+        lastSummary = data;
+        send("batch", data);
+      }
+      if (isFinishedBatchStatus(summary.status)) close();
+    };
+
+    const sendFileEvent = (jobId: string, event: JobEvent) => {
+      const file = files.get(jobId);
+      if (!isActive || !file) return;
+      const lastSentId = lastSentIds.get(jobId);
+      if (lastSentId && compareJobEventIds(event.id, lastSentId) <= 0) return;
+      lastSentIds.set(jobId, event.id);
+
+      const update = JSON.parse(event.data) as SSEUpdate;
+      if (update.status) file.status = update.status as JobStatus;
+      if (update.progress !== undefined) file.progress = update.progress;
+      send("file", JSON.stringify({ jobId, fileId: file.fileId, ...update }));
+      sendSummary();
+    };
+
+    stream.onAbort(() => {
+      close();
+      console.log(`[SSE] Client disconnected from batch ${batchId}`);
     });
 
-    // Keep connection alive with heartbeat
-    const heartbeatInterval = setInterval(() => {
-      if (!isActive) {
-        clearInterval(heartbeatInterval);
-        return;
+    try {
+      // Subscribe before taking the snapshot so nothing falls in between
+      unsubscribe = await subscribeChannel(
+        RedisKeys.batchUpdates(batchId),
+        (message) => {
+          try {
+            const { jobId, event } = parseBatchEventMessage(message);
+            if (pending) {
+              pending.push({ jobId, event });
+            } else {
+              sendFileEvent(jobId, event);
+            }
+          } catch (err) {
+            console.error("[SSE] Error processing message:", err);
+          }
+        },
+      );
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- close() can run during the await
+      if (!isActive) unsubscribe();
+
+      // The snapshot stands in for every event up to each file's latest id
+      const jobIds = await getBatchJobIds(batchId);
+      const latestIds = await Promise.all(jobIds.map(getLatestJobEventId));
+      jobIds.forEach((jobId, i) => {
+        const latestId = latestIds[i];
+        if (latestId) lastSentIds.set(jobId, latestId);
+      });
+      const jobs = await getBatchJobs(batchId);
+      for (const job of jobs) {
+        files.set(job.id, {
+          fileId: job.fileId,
+          status: job.status,
+          progress: job.progress,
+        });
+      }
+      const snapshot = toBatchStatusResponse(batch, jobs);
+      send("snapshot", JSON.stringify(snapshot));
+      lastSummary = JSON.stringify({
+        batchId,
+        status: snapshot.status,
+        progress: snapshot.progress,
+        counts: snapshot.counts,
+        totalFiles: batch.totalFiles,
+      });
+      if (isFinishedBatchStatus(snapshot.status)) close();
+
+      // Switch to live updates
+      const buffered = pending;
+      pending = null;
+      for (const { jobId, event } of buffered) {
+        sendFileEvent(jobId, event);
       }
-      stream
-        .writeSSE({
-          event: "heartbeat",
-          data: JSON.stringify({ timestamp: Date.now() }),
-        })
-        .catch(() => {
-          isActive = false;
+
+      const heartbeatInterval = setInterval(() => {
+        if (!isActive) {
           clearInterval(heartbeatInterval);
-        });
-    }, 15000);
+          return;
+        }
+        send("heartbeat", JSON.stringify({ timestamp: Date.now() }));
+      }, 15000);
 
-    // Clean up on stream end
-    stream.onAbort(() => {
+      await done;
       clearInterval(heartbeatInterval);
-    });
+    } finally {
+      close();
+    }
+    await writeChain;
   });
 });
 
+// New: Archive Download
+downloadRouter.openapi(archiveDownloadRoute, async (c) => {
+  const { file_ids, format, ...request } = c.req.valid("json");
+  const principal = c.get("principal");
+
+  // The whole archive is one job (and one concurrency slot); its fileId is
+  // the archive's first file
+  const archive = { format, fileIds: [...new Set(file_ids)] };
+  const created = await createDownloadJob(principal, {
+    ...request,
+    fileId: archive.fileIds[0],
+    archive,
+    idempotencyKey: c.get("idempotencyKey"),
+  });
+  if ("rejection" in created) {
+    return rejectDownloadJob(c, created.rejection);
+  }
+
+  const { job } = created;
+  console.log(
+    `[Download] Created archive job ${job.id} for ${archive.fileIds.length.toString()} files (${format}), user=${principal.id}, priority=${job.priority}${job.runAt === null ? "" : `, runAt=${new Date(job.runAt).toISOString()}`}`,
+  );
+
+  return c.json(toAsyncDownloadResponse(job, true), 202);
+});
+
 export { downloadRouter };
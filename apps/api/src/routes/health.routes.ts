@@ -1,9 +1,17 @@
 import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
 import { z } from "zod";
-import { checkQueueHealth, getQueueStats } from "../lib/queue.ts";
+import { getUserQueueDepths } from "../lib/fair-queue.ts";
+import { getPubSubStats } from "../lib/pubsub.ts";
+import {
+  checkQueueHealth,
+  getDeadLetterCount,
+  getQueueStats,
+} from "../lib/queue.ts";
 import { checkRedisHealth } from "../lib/redis.ts";
 import { checkS3Health } from "../lib/s3.ts";
 import { HealthResponseSchema } from "../schemas/index.ts";
+import { getLaneStats } from "../services/priority.service.ts";
+import { getWatchdogStats } from "../services/watchdog.service.ts";
 
 const healthRouter = new OpenAPIHono();
 
@@ -67,7 +75,8 @@ const queueStatsRoute = createRoute({
   path: "/health/queue",
   tags: ["Health"],
   summary: "Queue statistics",
-  description: "Returns current queue statistics",
+  description:
+    "Returns current queue statistics, dead-letter count, per-priority-lane waits, per-user backlog summary, stuck-job watchdog counters and this process's SSE fan-out stats. Per-user depths are under /v1/admin/queue/users",
   responses: {
     200: {
       description: "Queue statistics",
@@ -79,6 +88,40 @@ const queueStatsRoute = createRoute({
             completed: z.number().int(),
             failed: z.number().int(),
             delayed: z.number().int(),
+            deadLettered: z.number().int().openapi({
+              description:
+                "Failed jobs in the dead-letter queue (see /v1/admin/dead-letter)",
+            }),
+            lanes: z.record(
+              z.string(),
+              z.object({
+                waiting: z.number().int(),
+                samples: z.number().int(),
+                avgWaitMs: z.number().int(),
+                maxWaitMs: z.number().int(),
+              }),
+            ),
+            users: z.object({
+              waiting: z.number().int(),
+              maxDepth: z.number().int(),
+            }),
+            watchdog: z.object({
+              runs: z.number().int(),
+              requeued: z.number().int(),
+              failed: z.number().int(),
+              cleared: z.number().int(),
+              lastRunAt: z.number().int().nullable(),
+            }),
+            sse: z.object({
+              sseConnections: z.number().int(),
+              channels: z.number().int(),
+              listeners: z.number().int(),
+              messages: z.number().int(),
+              fanoutLatencyMs: z.object({
+                avg: z.number(),
+                max: z.number(),
+              }),
+            }),
           }),
         },
       },
@@ -117,8 +160,26 @@ healthRouter.openapi(healthRoute, async (c) => {
 });
 
 healthRouter.openapi(queueStatsRoute, async (c) => {
-  const stats = await getQueueStats();
-  return c.json(stats, 200);
+  const [stats, deadLettered, lanes, depths, watchdog] = await Promise.all([
+    getQueueStats(),
+    getDeadLetterCount(),
+    getLaneStats(),
+    getUserQueueDepths(),
+    getWatchdogStats(),
+  ]);
+  // Summary only - user IDs stay behind the admin endpoint
+  const users = { waiting: depths.length, maxDepth: depths[0]?.waiting ?? 0 };
+  return c.json(
+    {
+      ...stats,
+      deadLettered,
+      lanes,
+      users,
+      watchdog,
+      sse: getPubSubStats(),
+    },
+    200,
+  );
 });
 
 export { healthRouter };
@@ -1,4 +1,11 @@
 import { z } from "@hono/zod-openapi";
+import type { JobErrorCode } from "../config/env.ts";
+import {
+  ARCHIVE_FORMATS,
+  JOB_ERROR_CODES,
+  JOB_PRIORITIES,
+  RETRY_BACKOFF_TYPES,
+} from "../config/env.ts";
 
 // ============ Error Response Schema ============
 export const ErrorResponseSchema = z
@@ -34,9 +41,14 @@ export const DownloadInitiateRequestSchema = z
 
 export const DownloadInitiateResponseSchema = z
   .object({
-    jobId: z.string().openapi({ description: "Unique job identifier" }),
+    jobId: z.string().openapi({
+      description:
+        "Batch identifier (same as batchId of POST /v1/download/batch)",
+    }),
     status: z.enum(["queued", "processing"]),
     totalFileIds: z.number().int(),
+    statusUrl: z.string().openapi({ description: "URL to poll for status" }),
+    subscribeUrl: z.string().openapi({ description: "SSE subscription URL" }),
   })
   .openapi("DownloadInitiateResponse");
 
@@ -100,6 +112,31 @@ export const DownloadStartResponseSchema = z
   .openapi("DownloadStartResponse");
 
 // ============ Async Download Schemas (New Architecture) ============
+export const IdempotencyHeadersSchema = z.object({
+  "idempotency-key": z.string().optional().openapi({
+    description:
+      'Idempotency key (IETF draft), e.g. "8e03978e-40d5-43e8-bc93-6894a57f9324". Scoped to the caller; replays return the original response',
+  }),
+  "x-idempotency-key": z.string().optional().openapi({
+    description: "Deprecated alias of Idempotency-Key",
+    deprecated: true,
+  }),
+});
+
+// Not-before time of a job, as an absolute time or relative to now
+const ScheduleFields = {
+  runAt: z.number().int().positive().optional().openapi({
+    description:
+      "Unix timestamp in ms to start the job at; past times start it right away",
+  }),
+  delayMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .openapi({ description: "Start the job this many ms from now" }),
+};
+
 export const AsyncDownloadRequestSchema = z
   .object({
     file_id: z
@@ -108,17 +145,79 @@ export const AsyncDownloadRequestSchema = z
       .min(10000)
       .max(100000000)
       .openapi({ description: "File ID to download (10K to 100M)" }),
+    callbackUrl: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .openapi({
+        description:
+          "Optional URL to POST a signed notification to when the job completes or finally fails",
+      }),
+    priority: z.enum(JOB_PRIORITIES).optional().openapi({
+      description:
+        "Priority lane. Defaults to the caller's tier lane, which is also the highest lane it may use",
+    }),
+    ...ScheduleFields,
+  })
+  .refine((body) => body.runAt === undefined || body.delayMs === undefined, {
+    message: "Pass either runAt or delayMs, not both",
   })
   .openapi("AsyncDownloadRequest");
 
+export const ArchiveDownloadRequestSchema = z
+  .object({
+    file_ids: z
+      .array(z.number().int().min(10000).max(100000000))
+      .min(1)
+      .max(1000)
+      .openapi({
+        description:
+          "File IDs to bundle (10K to 100M), in archive order; duplicates are included once",
+      }),
+    format: z.enum(ARCHIVE_FORMATS).default("zip").openapi({
+      description: "Archive format",
+    }),
+    callbackUrl: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .openapi({
+        description:
+          "Optional URL to POST a signed notification to when the job completes or finally fails",
+      }),
+    priority: z.enum(JOB_PRIORITIES).optional().openapi({
+      description:
+        "Priority lane. Defaults to the caller's tier lane, which is also the highest lane it may use",
+    }),
+    ...ScheduleFields,
+  })
+  .refine((body) => body.runAt === undefined || body.delayMs === undefined, {
+    message: "Pass either runAt or delayMs, not both",
+  })
+  .openapi("ArchiveDownloadRequest");
+
+const JobArchiveSchema = z
+  .object({
+    format: z.enum(ARCHIVE_FORMATS),
+    fileIds: z.array(z.number().int()),
+  })
+  .openapi("JobArchive");
+
 export const AsyncDownloadResponseSchema = z
   .object({
     jobId: z.string().openapi({ description: "Unique job identifier" }),
     fileId: z.number().int(),
-    status: z.enum(["queued", "processing"]),
+    status: z.enum(["scheduled", "queued", "processing"]),
     isNew: z
       .boolean()
       .openapi({ description: "Whether this is a new job or existing one" }),
+    priority: z.enum(JOB_PRIORITIES),
+    runAt: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Planned start of a scheduled job (Unix ms)" }),
+    archive: JobArchiveSchema.nullable().openapi({
+      description: "Files bundled by an archive job; fileId is the first one",
+    }),
     createdAt: z
       .number()
       .int()
@@ -128,12 +227,41 @@ export const AsyncDownloadResponseSchema = z
   })
   .openapi("AsyncDownloadResponse");
 
+const AppliedRetryPolicySchema = z
+  .object({
+    errorCode: z.enum(JOB_ERROR_CODES),
+    backoff: z.enum(RETRY_BACKOFF_TYPES),
+    maxAttempts: z.number().int(),
+    delayMs: z.number().int(),
+    jitter: z.number(),
+  })
+  .openapi("RetryPolicy");
+
 export const JobStatusResponseSchema = z
   .object({
     jobId: z.string(),
     fileId: z.number().int(),
-    status: z.enum(["queued", "processing", "completed", "failed"]),
+    status: z.enum([
+      "scheduled",
+      "queued",
+      "processing",
+      "completed",
+      "failed",
+      "cancelled",
+    ]),
     progress: z.number().int().min(0).max(100),
+    bytesProcessed: z.number().int().nullable().openapi({
+      description:
+        "Bytes read from storage by the current or last run; null in simulated processing mode",
+    }),
+    totalBytes: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Bytes the current or last run has to read" }),
+    throughput: z.number().int().nullable().openapi({
+      description: "Average read rate of the current or last run (bytes/s)",
+    }),
     downloadUrl: z
       .string()
       .nullable()
@@ -142,14 +270,90 @@ export const JobStatusResponseSchema = z
       .string()
       .nullable()
       .openapi({ description: "Error message when failed" }),
-    canRetry: z
-      .boolean()
-      .openapi({ description: "Whether job can be retried" }),
+    errorCode: z.enum(JOB_ERROR_CODES).nullable().openapi({
+      description:
+        "Machine-readable failure reason: not_found (permanent), storage_unavailable, storage_throttled and timeout (transient), cancelled, internal",
+    }),
+    retryPolicy: AppliedRetryPolicySchema.nullable().openapi({
+      description:
+        "Retry policy applied to the last failure (from RETRY_POLICIES)",
+    }),
+    canRetry: z.boolean().openapi({
+      description:
+        "Whether the failed job can be retried manually; only set once automatic retries are exhausted",
+    }),
+    priority: z.enum(JOB_PRIORITIES),
+    runAt: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: "Planned start of a scheduled job (Unix ms)" }),
+    batchId: z
+      .string()
+      .nullable()
+      .openapi({ description: "Batch the job was created in, if any" }),
+    archive: JobArchiveSchema.nullable().openapi({
+      description: "Files bundled by an archive job; fileId is the first one",
+    }),
+    queuePosition: z.number().int().nullable().openapi({
+      description:
+        "Jobs ahead of this one in the waiting queue; null unless queued",
+    }),
+    estimatedStartAt: z.number().int().nullable().openapi({
+      description:
+        "Estimated (or actual, once processing) start time (Unix ms); null without enough history",
+    }),
+    estimatedCompletionAt: z.number().int().nullable().openapi({
+      description:
+        "Estimated completion time (Unix ms); null for finished jobs or without enough history",
+    }),
     createdAt: z.number().int(),
     updatedAt: z.number().int(),
   })
   .openapi("JobStatusResponse");
 
+export const RescheduleJobRequestSchema = z
+  .object(ScheduleFields)
+  .refine(
+    (body) => (body.runAt === undefined) !== (body.delayMs === undefined),
+    {
+      message: "Pass exactly one of runAt or delayMs",
+    },
+  )
+  .openapi("RescheduleJobRequest");
+
+export const JobListResponseSchema = z
+  .object({
+    jobs: z.array(JobStatusResponseSchema),
+    nextCursor: z.string().nullable().openapi({
+      description:
+        "Pass as `cursor` to fetch the next page; null on the last page",
+    }),
+  })
+  .openapi("JobListResponse");
+
+export const WebhookDeliveriesResponseSchema = z
+  .object({
+    jobId: z.string(),
+    callbackUrl: z.string().nullable(),
+    deliveries: z.array(
+      z.object({
+        deliveryId: z
+          .string()
+          .openapi({ description: "Sent as X-Webhook-Id, same on retries" }),
+        event: z.enum(["job.completed", "job.failed"]),
+        url: z.string(),
+        attempt: z.number().int(),
+        timestamp: z.number().int(),
+        statusCode: z.number().int().nullable(),
+        error: z.string().nullable(),
+        durationMs: z.number().int(),
+        success: z.boolean(),
+      }),
+    ),
+  })
+  .openapi("WebhookDeliveriesResponse");
+
 export const RateLimitErrorSchema = z
   .object({
     error: z.string(),
@@ -158,18 +362,215 @@ export const RateLimitErrorSchema = z
   })
   .openapi("RateLimitError");
 
+// ============ Batch Download Schemas ============
+const BATCH_STATUSES = [
+  "queued",
+  "processing",
+  "completed",
+  "partially_completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export const BatchDownloadRequestSchema = z
+  .object({
+    file_ids: z
+      .array(z.number().int().min(10000).max(100000000))
+      .min(1)
+      .max(1000)
+      .openapi({
+        description:
+          "File IDs to download (10K to 100M); duplicates share one job",
+      }),
+    priority: z.enum(JOB_PRIORITIES).optional().openapi({
+      description:
+        "Priority lane of every file. Defaults to the caller's tier lane, which is also the highest lane it may use",
+    }),
+  })
+  .openapi("BatchDownloadRequest");
+
+export const BatchDownloadResponseSchema = z
+  .object({
+    batchId: z.string(),
+    status: z.enum(["queued"]),
+    totalFiles: z.number().int(),
+    priority: z.enum(JOB_PRIORITIES),
+    createdAt: z.number().int(),
+    statusUrl: z.string().openapi({ description: "URL to poll for status" }),
+    subscribeUrl: z.string().openapi({ description: "SSE subscription URL" }),
+    jobs: z
+      .array(z.object({ jobId: z.string(), fileId: z.number().int() }))
+      .openapi({ description: "One download job per file, in request order" }),
+  })
+  .openapi("BatchDownloadResponse");
+
+export const BatchStatusResponseSchema = z
+  .object({
+    batchId: z.string(),
+    status: z.enum(BATCH_STATUSES).openapi({
+      description:
+        "queued/processing until every file finished, then completed, partially_completed (some files failed or were cancelled), failed or cancelled",
+    }),
+    progress: z.number().int().min(0).max(100).openapi({
+      description: "Average over files; finished files count as 100",
+    }),
+    totalFiles: z.number().int(),
+    counts: z
+      .record(z.string(), z.number().int())
+      .openapi({ description: "Files per job status" }),
+    priority: z.enum(JOB_PRIORITIES),
+    createdAt: z.number().int(),
+    files: z.array(
+      z.object({
+        jobId: z.string(),
+        fileId: z.number().int(),
+        status: z.enum([
+          "scheduled",
+          "queued",
+          "processing",
+          "completed",
+          "failed",
+          "cancelled",
+        ]),
+        progress: z.number().int().min(0).max(100),
+        downloadUrl: z.string().nullable(),
+        error: z.string().nullable(),
+        errorCode: z.enum(JOB_ERROR_CODES).nullable(),
+        canRetry: z.boolean(),
+      }),
+    ),
+  })
+  .openapi("BatchStatusResponse");
+
+// ============ Admin Schemas ============
+export const ReconciliationReportSchema = z
+  .object({
+    startedAt: z.number().int(),
+    finishedAt: z.number().int(),
+    durationMs: z.number().int(),
+    scanned: z.object({
+      jobs: z.number().int(),
+      activeJobSets: z.number().int(),
+      idempotencyKeys: z.number().int(),
+    }),
+    missingArtifacts: z
+      .object({
+        count: z.number().int(),
+        fixed: z.number().int(),
+        errors: z.number().int().openapi({
+          description: "Jobs whose artifact check failed (storage errors)",
+        }),
+        jobs: z.array(
+          z.object({ jobId: z.string(), fileId: z.number().int() }),
+        ),
+      })
+      .openapi({
+        description: "Completed jobs whose S3 object is gone (marked failed)",
+      }),
+    staleSlots: z
+      .object({
+        count: z.number().int(),
+        fixed: z.number().int(),
+        entries: z.array(
+          z.object({
+            userId: z.string(),
+            jobId: z.string(),
+            status: z.string().openapi({
+              description: "Job status, or expired when the hash is gone",
+            }),
+          }),
+        ),
+      })
+      .openapi({
+        description:
+          "Concurrency slots held by finished or expired jobs (released)",
+      }),
+    danglingIdempotencyKeys: z
+      .object({
+        count: z.number().int(),
+        fixed: z.number().int(),
+        keys: z.array(z.string()),
+      })
+      .openapi({
+        description: "Idempotency keys pointing at expired jobs (deleted)",
+      }),
+  })
+  .openapi("ReconciliationReport");
+
+export const ReconciliationTriggerResponseSchema = z
+  .object({
+    runId: z.string().openapi({ description: "Maintenance queue job ID" }),
+    message: z.string(),
+  })
+  .openapi("ReconciliationTriggerResponse");
+
+export const QueueUserDepthsResponseSchema = z
+  .object({
+    waitingUsers: z
+      .number()
+      .int()
+      .openapi({ description: "Users with at least one waiting job" }),
+    users: z.array(
+      z.object({
+        userId: z.string(),
+        waiting: z.number().int().openapi({
+          description: "Jobs waiting to start (scheduled jobs excluded)",
+        }),
+      }),
+    ),
+  })
+  .openapi("QueueUserDepthsResponse");
+
+export const JobAccessAuditResponseSchema = z
+  .object({
+    entries: z.array(
+      z.object({
+        timestamp: z.number().int(),
+        requestId: z.string(),
+        principalId: z.string(),
+        ownerId: z.string(),
+        jobId: z.string(),
+        action: z.string(),
+        allowed: z
+          .boolean()
+          .openapi({ description: "True when an admin accessed the job" }),
+      }),
+    ),
+  })
+  .openapi("JobAccessAuditResponse");
+
 // ============ SSE Event Types ============
-export interface SSEStatusEvent {
-  status: "queued" | "processing" | "completed" | "failed";
-  progress: number;
+// Queue position and ETA, sent with status snapshots and periodic refreshes
+export interface SSEEstimateFields {
+  queuePosition?: number | null;
+  estimatedStartAt?: number | null; // Unix ms
+  estimatedCompletionAt?: number | null; // Unix ms
 }
 
-export interface SSEProgressEvent {
+export interface SSEStatusEvent extends SSEEstimateFields {
+  status:
+    | "scheduled"
+    | "queued"
+    | "processing"
+    | "completed"
+    | "failed"
+    | "cancelled";
+  progress?: number; // Absent on estimate refreshes
+}
+
+// Byte counts of a job streaming from storage (absent when simulated)
+export interface SSETransferFields {
+  bytesProcessed?: number;
+  totalBytes?: number;
+  throughput?: number; // Bytes per second
+}
+
+export interface SSEProgressEvent extends SSETransferFields, SSEEstimateFields {
   status: "processing";
   progress: number;
 }
 
-export interface SSECompleteEvent {
+export interface SSECompleteEvent extends SSETransferFields {
   status: "completed";
   progress: 100;
   downloadUrl: string;
@@ -178,11 +579,135 @@ export interface SSECompleteEvent {
 export interface SSEErrorEvent {
   status: "failed";
   error: string;
+  errorCode: JobErrorCode;
   canRetry: boolean;
 }
 
+export interface SSECancelledEvent {
+  status: "cancelled";
+  errorCode: "cancelled";
+  canRetry: false;
+}
+
+// Batch stream: aggregate state, sent on connect and whenever it changes
+export interface SSEBatchEvent {
+  batchId: string;
+  status:
+    | "queued"
+    | "processing"
+    | "completed"
+    | "partially_completed"
+    | "failed"
+    | "cancelled";
+  progress: number;
+  totalFiles: number;
+  counts: Record<string, number>;
+}
+
+// Batch stream: an update of one file's job (same fields as the job stream)
+export type SSEBatchFileEvent = Partial<SSEEvent> & {
+  jobId: string;
+  fileId: number;
+};
+
 export type SSEEvent =
   | SSEStatusEvent
   | SSEProgressEvent
   | SSECompleteEvent
-  | SSEErrorEvent;
+  | SSEErrorEvent
+  | SSECancelledEvent;
+
+// ============ Dead-Letter Schemas ============
+export const DeadLetterFilterSchema = z.object({
+  errorCode: z.enum(JOB_ERROR_CODES).optional(),
+  userId: z.string().min(1).optional(),
+  fileId: z.coerce.number().int().optional(),
+  failedAfter: z.coerce.number().int().optional().openapi({
+    description: "Only jobs dead-lettered at or after this time (Unix ms)",
+  }),
+  failedBefore: z.coerce.number().int().optional().openapi({
+    description: "Only jobs dead-lettered before this time (Unix ms)",
+  }),
+});
+
+const DeadLetterJobSummarySchema = z.object({
+  jobId: z.string(),
+  fileId: z.number().int(),
+  userId: z.string(),
+  priority: z.enum(JOB_PRIORITIES),
+  errorCode: z.enum(JOB_ERROR_CODES),
+  error: z.string().openapi({ description: "Message of the last failure" }),
+  permanent: z.boolean().openapi({
+    description: "Failed with a permanent error, without using its retries",
+  }),
+  attempts: z.number().int(),
+  createdAt: z.number().int(),
+  deadLetteredAt: z.number().int(),
+});
+
+export const DeadLetterJobSchema = DeadLetterJobSummarySchema.extend({
+  callbackUrl: z.string().nullable(),
+  archive: JobArchiveSchema.nullable(),
+  errors: z
+    .array(
+      z.object({
+        attempt: z.number().int().nullable(),
+        errorCode: z.enum(JOB_ERROR_CODES),
+        error: z.string(),
+        failedAt: z.number().int(),
+      }),
+    )
+    .openapi({
+      description: "Every recorded failure of the job, oldest first",
+    }),
+  stacktrace: z
+    .string()
+    .nullable()
+    .openapi({ description: "Stack trace of the last attempt" }),
+  retryPolicy: AppliedRetryPolicySchema,
+}).openapi("DeadLetterJob");
+
+export const DeadLetterListResponseSchema = z
+  .object({
+    total: z
+      .number()
+      .int()
+      .openapi({ description: "Dead-lettered jobs matching the filter" }),
+    jobs: z.array(DeadLetterJobSummarySchema),
+  })
+  .openapi("DeadLetterListResponse");
+
+const DEAD_LETTER_REPLAY_OUTCOMES = [
+  "replayed",
+  "not_found",
+  "superseded",
+  "concurrency_limit",
+  "in_progress",
+] as const;
+
+export const DeadLetterReplayResultSchema = z
+  .object({
+    jobId: z.string(),
+    outcome: z.enum(DEAD_LETTER_REPLAY_OUTCOMES).openapi({
+      description:
+        "replayed, not_found (no entry), superseded (job was retried since; entry dropped), concurrency_limit (owner has no free slot; entry kept), in_progress (another replay is running)",
+    }),
+  })
+  .openapi("DeadLetterReplayResult");
+
+export const DeadLetterBulkReplayRequestSchema = DeadLetterFilterSchema.extend({
+  limit: z.number().int().min(1).max(1000).default(100),
+}).openapi("DeadLetterBulkReplayRequest");
+
+export const DeadLetterBulkReplayResponseSchema = z
+  .object({
+    replayed: z.number().int(),
+    results: z.array(DeadLetterReplayResultSchema),
+  })
+  .openapi("DeadLetterBulkReplayResponse");
+
+export const DeadLetterPurgeResponseSchema = z
+  .object({
+    purged: z.number().int(),
+  })
+  .openapi("DeadLetterPurgeResponse");
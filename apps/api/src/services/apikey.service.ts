@@ -0,0 +1,86 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-argument */
+/**
+ * API Key Service
+ *
+ * Stores API keys in Redis. Only the SHA-256 hash of a key is stored, so a
+ * leaked Redis dump does not leak usable credentials.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { createHash, randomBytes } from "node:crypto";
+import { redis, RedisKeys } from "../lib/redis.ts";
+
+// Prefix makes keys easy to recognise in logs and secret scanners
+const API_KEY_PREFIX = "dlk_";
+
+// Rate limit tier for keys and tokens that don't name one
+export const DEFAULT_TIER = "default";
+
+// API key record stored in Redis
+export interface ApiKeyRecord {
+  userId: string;
+  name: string;
+  roles: string[];
+  tier: string; // Rate limit tier
+  createdAt: number;
+}
+
+// Redis hash data structure
+interface RedisApiKeyHash {
+  userId: string;
+  name: string;
+  roles: string;
+  tier?: string; // Absent on keys created before tiers existed
+  createdAt: string;
+}
+
+const hashApiKey = (apiKey: string): string =>
+  createHash("sha256").update(apiKey).digest("hex");
+
+// Create a new API key and return the raw key (shown once)
+export const createApiKey = async (
+  userId: string,
+  name: string,
+  roles: string[] = [],
+  tier: string = DEFAULT_TIER,
+): Promise<string> => {
+  const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  await redis.hset(RedisKeys.apiKey(hashApiKey(apiKey)), {
+    userId,
+    name,
+    roles: roles.join(","),
+    tier,
+    createdAt: String(Date.now()),
+  });
+
+  console.log(
+    `[ApiKey] Created key "${name}" (tier ${tier}) for user ${userId}`,
+  );
+  return apiKey;
+};
+
+// Look up an API key
+export const getApiKeyRecord = async (
+  apiKey: string,
+): Promise<ApiKeyRecord | null> => {
+  const data = await redis.hgetall(RedisKeys.apiKey(hashApiKey(apiKey)));
+  if (Object.keys(data).length === 0) {
+    return null;
+  }
+
+  const record = data as unknown as RedisApiKeyHash;
+  return {
+    userId: record.userId,
+    name: record.name,
+    roles: record.roles ? record.roles.split(",") : [],
+    tier: record.tier ?? DEFAULT_TIER,
+    createdAt: parseInt(record.createdAt, 10),
+  };
+};
+
+// Revoke an API key
+export const revokeApiKey = async (apiKey: string): Promise<boolean> => {
+  const deleted = await redis.del(RedisKeys.apiKey(hashApiKey(apiKey)));
+  return deleted === 1;
+};
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Audit Service
+ *
+ * Records cross-user job access (denied attempts and admin overrides) in a
+ * capped Redis list so they can be reviewed from the admin API.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { redis, RedisKeys } from "../lib/redis.ts";
+
+const MAX_AUDIT_ENTRIES = 1000;
+
+export interface JobAccessAuditEntry {
+  timestamp: number;
+  requestId: string;
+  principalId: string;
+  ownerId: string;
+  jobId: string;
+  action: string;
+  allowed: boolean;
+}
+
+// Record an access to another user's job
+export const recordJobAccess = async (
+  entry: JobAccessAuditEntry,
+): Promise<void> => {
+  await redis.lpush(RedisKeys.auditJobAccess, JSON.stringify(entry));
+  await redis.ltrim(RedisKeys.auditJobAccess, 0, MAX_AUDIT_ENTRIES - 1);
+
+  const outcome = entry.allowed ? "allowed (admin)" : "denied";
+  console.warn(
+    `[Audit] ${entry.principalId} ${entry.action} job ${entry.jobId} owned by ${entry.ownerId}: ${outcome}`,
+  );
+};
+
+// Get the most recent audit entries, newest first
+export const getJobAccessAudit = async (
+  limit: number,
+): Promise<JobAccessAuditEntry[]> => {
+  const entries: string[] = await redis.lrange(
+    RedisKeys.auditJobAccess,
+    0,
+    limit - 1,
+  );
+  return entries.map((entry) => JSON.parse(entry) as JobAccessAuditEntry);
+};
@@ -0,0 +1,207 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-argument */
+/**
+ * Batch Service
+ *
+ * Groups the download jobs of one multi-file request. Each file gets an
+ * ordinary download job tagged with the batchId, so it has its own status,
+ * retries, cancellation and SSE stream. The batch stores its children's
+ * jobIds in file order and derives status and progress from them on read;
+ * a manual retry or dead-letter replay of a child therefore shows up in the
+ * batch without extra bookkeeping.
+ *
+ * Children don't take per-user concurrency slots: fair scheduling already
+ * interleaves a large batch with other users' jobs. Instead the number of
+ * files per batch is capped per tier (BATCH_MAX_FILES_TIERS), so anonymous
+ * callers can't queue a thousand jobs in one request.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type { JobPriority } from "../config/env.ts";
+import { env } from "../config/env.ts";
+import { addDownloadJob } from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import type { JobData, JobStatus } from "./job.service.ts";
+import { createJob, getJob, isTerminalStatus } from "./job.service.ts";
+
+// Children created at once while a batch is set up
+const CREATE_CHUNK_SIZE = 50;
+
+export const BATCH_STATUSES = [
+  "queued",
+  "processing",
+  "completed",
+  "partially_completed",
+  "failed",
+  "cancelled",
+] as const;
+export type BatchStatus = (typeof BATCH_STATUSES)[number];
+
+export interface BatchData {
+  id: string;
+  userId: string;
+  priority: JobPriority;
+  totalFiles: number;
+  createdAt: number;
+}
+
+// Batch as stored in Redis (all values are strings)
+interface RedisBatchHash {
+  id: string;
+  userId: string;
+  priority: string;
+  totalFiles: string;
+  createdAt: string;
+}
+
+// Aggregate state of a batch's children
+export interface BatchSummary {
+  status: BatchStatus;
+  progress: number;
+  counts: Record<JobStatus, number>;
+}
+
+// Status and progress of the children, with finished files counting as 100%.
+// A batch is finished once every child is; it completed if all files did,
+// partially if some did. A child between automatic retries is "queued", so
+// "failed" only ever means its retries are exhausted (or it failed for good).
+export const summarizeBatch = (
+  files: { status: JobStatus; progress: number }[],
+): BatchSummary => {
+  const counts: Record<JobStatus, number> = {
+    scheduled: 0,
+    queued: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  let progressSum = 0;
+  for (const file of files) {
+    counts[file.status]++;
+    progressSum += isTerminalStatus(file.status) ? 100 : file.progress;
+  }
+
+  const finished = counts.completed + counts.failed + counts.cancelled;
+  let status: BatchStatus;
+  if (finished < files.length) {
+    status = finished > 0 || counts.processing > 0 ? "processing" : "queued";
+  } else if (counts.completed === files.length) {
+    status = "completed";
+  } else if (counts.completed > 0) {
+    status = "partially_completed";
+  } else if (counts.cancelled === files.length) {
+    status = "cancelled";
+  } else {
+    status = "failed";
+  }
+
+  return {
+    status,
+    progress: files.length === 0 ? 0 : Math.floor(progressSum / files.length),
+    counts,
+  };
+};
+
+// Distinct files a batch of the tier may hold
+export const getBatchFileLimit = (tier: string): number =>
+  env.BATCH_MAX_FILES_TIERS[tier] ?? env.BATCH_MAX_FILES;
+
+export const isFinishedBatchStatus = (status: BatchStatus): boolean =>
+  status !== "queued" && status !== "processing";
+
+// Create a batch with one download job per file (duplicates collapse)
+export const createBatch = async (
+  userId: string,
+  priority: JobPriority,
+  fileIds: number[],
+  idempotencyKey?: string,
+): Promise<{ batch: BatchData; jobs: { jobId: string; fileId: number }[] }> => {
+  const jobs = [...new Set(fileIds)].map((fileId) => ({
+    jobId: crypto.randomUUID(),
+    fileId,
+  }));
+  const batch: BatchData = {
+    id: crypto.randomUUID(),
+    userId,
+    priority,
+    totalFiles: jobs.length,
+    createdAt: Date.now(),
+  };
+
+  const key = RedisKeys.batch(batch.id);
+  const jobsKey = RedisKeys.batchJobs(batch.id);
+  await redis
+    .multi()
+    .hset(key, {
+      id: batch.id,
+      userId,
+      priority,
+      totalFiles: String(batch.totalFiles),
+      createdAt: String(batch.createdAt),
+    })
+    .expire(key, env.JOB_TTL_SECONDS)
+    .rpush(jobsKey, ...jobs.map(({ jobId }) => jobId))
+    .expire(jobsKey, env.JOB_TTL_SECONDS)
+    .exec();
+
+  for (let i = 0; i < jobs.length; i += CREATE_CHUNK_SIZE) {
+    await Promise.all(
+      jobs.slice(i, i + CREATE_CHUNK_SIZE).map(async ({ jobId, fileId }) => {
+        await createJob(
+          jobId,
+          fileId,
+          userId,
+          priority,
+          undefined,
+          undefined,
+          batch.id,
+        );
+        await addDownloadJob({
+          jobId,
+          fileId,
+          userId,
+          idempotencyKey,
+          priority,
+          createdAt: batch.createdAt,
+        });
+      }),
+    );
+  }
+
+  console.log(
+    `[BatchService] Created batch ${batch.id} with ${batch.totalFiles.toString()} files for user=${userId} (${priority} lane)`,
+  );
+  return { batch, jobs };
+};
+
+export const getBatch = async (batchId: string): Promise<BatchData | null> => {
+  const data = await redis.hgetall(RedisKeys.batch(batchId));
+  if (Object.keys(data).length === 0) return null;
+
+  const batchData = data as unknown as RedisBatchHash;
+  return {
+    id: batchData.id,
+    userId: batchData.userId,
+    priority: batchData.priority as JobPriority,
+    totalFiles: parseInt(batchData.totalFiles, 10),
+    createdAt: parseInt(batchData.createdAt, 10),
+  };
+};
+
+// jobIds of a batch's children in file order
+export const getBatchJobIds = async (batchId: string): Promise<string[]> => {
+  const jobIds: string[] = await redis.lrange(
+    RedisKeys.batchJobs(batchId),
+    0,
+    -1,
+  );
+  return jobIds;
+};
+
+// Children of a batch in file order; expired ones are left out
+export const getBatchJobs = async (batchId: string): Promise<JobData[]> => {
+  const jobIds = await getBatchJobIds(batchId);
+  const jobs = await Promise.all(jobIds.map((jobId) => getJob(jobId)));
+  return jobs.filter((job): job is JobData => job !== null);
+};
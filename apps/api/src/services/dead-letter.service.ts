@@ -0,0 +1,268 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Dead-Letter Service
+ *
+ * Download jobs that failed for good (retries exhausted or a permanent error)
+ * are copied to the downloads-dead queue with their error history, attempts
+ * and last stack trace. Admins can inspect them, replay them once the cause
+ * is fixed (e.g. after a storage outage) instead of asking users to resubmit,
+ * or purge them. Cancelled jobs are never dead-lettered.
+ *
+ * A replay re-enqueues the job under its original jobId, like a manual retry:
+ * attempts carry over and the owner's concurrency limit applies.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type { JobErrorCode } from "../config/env.ts";
+import { env } from "../config/env.ts";
+import { isPermanentJobError } from "../lib/job-errors.ts";
+import { jobsRetriedTotal } from "../lib/metrics.ts";
+import type { DeadLetterJobData, DownloadJobData } from "../lib/queue.ts";
+import {
+  addDeadLetterJob,
+  getDeadLetterJob,
+  getDeadLetterJobs,
+  removeDeadLetterJob,
+  requeueDownloadJob,
+} from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import type { AppliedRetryPolicy } from "../lib/retry-policy.ts";
+import {
+  admitUserJob,
+  createJob,
+  getJob,
+  getJobErrors,
+  markJobFailed,
+  releaseUserJob,
+  resetJobForRetry,
+} from "./job.service.ts";
+import { enqueueJobWebhook } from "./webhook.service.ts";
+
+// Upper bound on one replay; the lock frees itself if a replay crashes
+const REPLAY_LOCK_MS = 30 * 1000;
+
+// Entries read from the queue at once
+const PAGE_SIZE = 100;
+
+export type DeadLetterReplayOutcome =
+  | "replayed"
+  | "not_found" // No dead-letter entry for the job
+  | "superseded" // Job was retried some other way; the entry is dropped
+  | "concurrency_limit" // Owner has no free slot; the entry stays
+  | "in_progress"; // Another replay of the job is running
+
+// Which dead-lettered jobs a list, replay or purge applies to
+export interface DeadLetterFilter {
+  errorCode?: JobErrorCode;
+  userId?: string;
+  fileId?: number;
+  failedAfter?: number; // Unix ms, inclusive
+  failedBefore?: number; // Unix ms, exclusive
+}
+
+const matchesFilter = (
+  entry: DeadLetterJobData,
+  filter: DeadLetterFilter,
+): boolean =>
+  (filter.errorCode === undefined || entry.errorCode === filter.errorCode) &&
+  (filter.userId === undefined || entry.userId === filter.userId) &&
+  (filter.fileId === undefined || entry.fileId === filter.fileId) &&
+  (filter.failedAfter === undefined ||
+    entry.deadLetteredAt >= filter.failedAfter) &&
+  (filter.failedBefore === undefined ||
+    entry.deadLetteredAt < filter.failedBefore);
+
+// Dead-letter a job after its final failure
+const deadLetterJob = async (
+  data: DownloadJobData,
+  err: Error,
+  attempts: number,
+  retryPolicy: AppliedRetryPolicy,
+): Promise<void> => {
+  const [job, errors] = await Promise.all([
+    getJob(data.jobId),
+    getJobErrors(data.jobId),
+  ]);
+  await addDeadLetterJob({
+    ...data,
+    priority: data.priority ?? env.JOB_PRIORITY_DEFAULT,
+    callbackUrl: job?.callbackUrl ?? null,
+    archive: job?.archive ?? undefined,
+    batchId: job?.batchId ?? undefined,
+    errorCode: retryPolicy.errorCode,
+    error: err.message,
+    permanent: isPermanentJobError(err),
+    attempts,
+    errors,
+    stacktrace: err.stack ?? null,
+    retryPolicy,
+    deadLetteredAt: Date.now(),
+  });
+};
+
+// Record a job's final failure, for the worker and the watchdog alike: mark
+// it failed, report it to its callbackUrl, dead-letter it and free the
+// owner's slot. Returns false if the job was cancelled meanwhile; it stays
+// cancelled and is neither reported nor dead-lettered.
+export const failJobForGood = async (
+  data: DownloadJobData,
+  err: Error,
+  attempts: number,
+  retryPolicy: AppliedRetryPolicy,
+): Promise<boolean> => {
+  try {
+    const written = await markJobFailed(
+      data.jobId,
+      err.message,
+      retryPolicy.errorCode,
+      // Another run of a permanent failure would fail the same way
+      !isPermanentJobError(err),
+      attempts,
+      retryPolicy,
+    );
+    if (written) {
+      await Promise.all([
+        enqueueJobWebhook(data.jobId),
+        deadLetterJob(data, err, attempts, retryPolicy),
+      ]);
+    }
+    return written;
+  } finally {
+    await releaseUserJob(data.userId, data.jobId);
+  }
+};
+
+// Dead-lettered jobs matching a filter, oldest first, read a page at a time.
+// Stops early once `limit` entries matched.
+const findDeadLetterJobs = async (
+  filter: DeadLetterFilter,
+  limit: number = Infinity,
+): Promise<DeadLetterJobData[]> => {
+  const matches: DeadLetterJobData[] = [];
+  for (let start = 0; matches.length < limit; start += PAGE_SIZE) {
+    const page = await getDeadLetterJobs(start, start + PAGE_SIZE - 1);
+    for (const entry of page) {
+      if (matchesFilter(entry, filter)) matches.push(entry);
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+  return matches.slice(0, limit);
+};
+
+// Newest `limit` dead-lettered jobs matching a filter, plus how many match.
+// Only those entries are kept while the queue is read.
+export const listDeadLetterJobs = async (
+  filter: DeadLetterFilter,
+  limit: number,
+): Promise<{ total: number; jobs: DeadLetterJobData[] }> => {
+  let total = 0;
+  let newest: DeadLetterJobData[] = [];
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const page = await getDeadLetterJobs(start, start + PAGE_SIZE - 1);
+    const matches = page.filter((entry) => matchesFilter(entry, filter));
+    total += matches.length;
+    newest = [...newest, ...matches].slice(-limit);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return { total, jobs: newest.reverse() };
+};
+
+const replayEntry = async (jobId: string): Promise<DeadLetterReplayOutcome> => {
+  const entry = await getDeadLetterJob(jobId);
+  if (!entry) return "not_found";
+
+  // Retried manually (or replayed) since it was dead-lettered
+  const job = await getJob(jobId);
+  if (job && job.status !== "failed") {
+    await removeDeadLetterJob(jobId);
+    return "superseded";
+  }
+
+  // The replayed job takes one of the owner's slots again, unless it is a
+  // batch file (those never take one)
+  if ((job?.batchId ?? entry.batchId) === undefined) {
+    const admission = await admitUserJob(entry.userId, jobId);
+    if (!admission.admitted) return "concurrency_limit";
+  }
+
+  // The job hash may have expired while the entry waited
+  if (job) {
+    await resetJobForRetry(jobId);
+  } else {
+    await createJob(
+      jobId,
+      entry.fileId,
+      entry.userId,
+      entry.priority,
+      entry.callbackUrl ?? undefined,
+      undefined,
+      entry.batchId,
+      entry.archive,
+    );
+  }
+
+  await requeueDownloadJob({
+    jobId,
+    fileId: entry.fileId,
+    userId: entry.userId,
+    idempotencyKey: entry.idempotencyKey,
+    priority: entry.priority,
+    createdAt: entry.createdAt,
+    previousAttempts: entry.attempts,
+  });
+  await removeDeadLetterJob(jobId);
+  jobsRetriedTotal.inc({ trigger: "dead_letter" });
+
+  console.log(
+    `[DeadLetter] Replayed job ${jobId} for file_id=${entry.fileId.toString()} (previous attempts: ${entry.attempts.toString()})`,
+  );
+  return "replayed";
+};
+
+// Re-enqueue one dead-lettered job
+export const replayDeadLetterJob = async (
+  jobId: string,
+): Promise<DeadLetterReplayOutcome> => {
+  const lockKey = RedisKeys.deadLetterReplayLock(jobId);
+  const lock = await redis.set(lockKey, "1", "PX", REPLAY_LOCK_MS, "NX");
+  if (lock !== "OK") return "in_progress";
+
+  try {
+    return await replayEntry(jobId);
+  } finally {
+    await redis.del(lockKey);
+  }
+};
+
+// Re-enqueue up to `limit` dead-lettered jobs matching a filter, oldest first.
+// Jobs whose owner is at the concurrency limit stay dead-lettered, so the
+// same call can be repeated once slots free up.
+export const replayDeadLetterJobs = async (
+  filter: DeadLetterFilter,
+  limit: number,
+): Promise<{ jobId: string; outcome: DeadLetterReplayOutcome }[]> => {
+  const entries = await findDeadLetterJobs(filter, limit);
+
+  const results: { jobId: string; outcome: DeadLetterReplayOutcome }[] = [];
+  for (const entry of entries) {
+    results.push({
+      jobId: entry.jobId,
+      outcome: await replayDeadLetterJob(entry.jobId),
+    });
+  }
+  return results;
+};
+
+// Drop every dead-lettered job matching a filter; returns how many
+export const purgeDeadLetterJobs = async (
+  filter: DeadLetterFilter,
+): Promise<number> => {
+  // Matches are collected before removing, which would shift the pages
+  let purged = 0;
+  for (const entry of await findDeadLetterJobs(filter)) {
+    if (await removeDeadLetterJob(entry.jobId)) purged++;
+  }
+  if (purged > 0) console.log(`[DeadLetter] Purged ${purged.toString()} jobs`);
+  return purged;
+};
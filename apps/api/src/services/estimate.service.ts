@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Estimate Service
+ *
+ * Queue position and estimated start/finish times of download jobs, for
+ * status responses and SSE streams. Estimates come from a rolling average of
+ * recent processing times kept in Redis (the worker records one per
+ * completed job).
+ *
+ * A waiting job starts once the jobs ahead of it have gone through the busy
+ * worker slots; running jobs are assumed to be halfway done. A job streaming
+ * from storage finishes when its remaining bytes are read at the current
+ * throughput. Without recorded durations only those byte-based and scheduled
+ * estimates are given.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { getActiveDownloadCount, getWaitingPosition } from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import type { JobData } from "./job.service.ts";
+import { isTerminalStatus } from "./job.service.ts";
+
+// Recent processing times kept for the rolling average
+const MAX_DURATION_SAMPLES = 100;
+
+export interface JobEstimate {
+  queuePosition: number | null; // Jobs ahead in the queue; null unless queued
+  estimatedStartAt: number | null; // Unix ms
+  estimatedCompletionAt: number | null; // Unix ms
+}
+
+export const NO_ESTIMATE: JobEstimate = {
+  queuePosition: null,
+  estimatedStartAt: null,
+  estimatedCompletionAt: null,
+};
+
+// Record how long a completed job took to process (called by the worker)
+export const recordJobDuration = async (durationMs: number): Promise<void> => {
+  await redis
+    .multi()
+    .lpush(RedisKeys.jobDurations, Math.max(0, Math.round(durationMs)))
+    .ltrim(RedisKeys.jobDurations, 0, MAX_DURATION_SAMPLES - 1)
+    .exec();
+};
+
+// Rolling average processing time, or null before any job completed
+export const getAverageJobDuration = async (): Promise<number | null> => {
+  const samples: string[] = await redis.lrange(RedisKeys.jobDurations, 0, -1);
+  if (samples.length === 0) return null;
+  const total = samples.reduce((sum, sample) => sum + Number(sample), 0);
+  return Math.round(total / samples.length);
+};
+
+const estimateJob = async (
+  job: JobData,
+  avgDurationMs: number | null,
+  busySlots: number,
+  now: number,
+): Promise<JobEstimate> => {
+  if (isTerminalStatus(job.status)) return NO_ESTIMATE;
+
+  if (job.status === "scheduled") {
+    const startAt = job.runAt ?? now;
+    return {
+      queuePosition: null,
+      estimatedStartAt: startAt,
+      estimatedCompletionAt:
+        avgDurationMs === null ? null : startAt + avgDurationMs,
+    };
+  }
+
+  if (job.status === "queued") {
+    // Not in the waiting list: delayed for a retry, or about to start
+    const position = await getWaitingPosition(job.id);
+    if (position === null || avgDurationMs === null) {
+      return { ...NO_ESTIMATE, queuePosition: position };
+    }
+    const startAt =
+      now +
+      Math.round(avgDurationMs / 2) +
+      Math.floor(position / busySlots) * avgDurationMs;
+    return {
+      queuePosition: position,
+      estimatedStartAt: startAt,
+      estimatedCompletionAt: startAt + avgDurationMs,
+    };
+  }
+
+  // Processing
+  const startedAt = await redis.zscore(RedisKeys.jobsProcessing, job.id);
+  const startAt = startedAt === null ? null : Number(startedAt);
+  if (
+    job.bytesProcessed !== null &&
+    job.totalBytes !== null &&
+    job.throughput !== null &&
+    job.throughput > 0
+  ) {
+    const remainingBytes = Math.max(0, job.totalBytes - job.bytesProcessed);
+    return {
+      queuePosition: null,
+      estimatedStartAt: startAt,
+      estimatedCompletionAt:
+        now + Math.round((remainingBytes * 1000) / job.throughput),
+    };
+  }
+  return {
+    queuePosition: null,
+    estimatedStartAt: startAt,
+    estimatedCompletionAt:
+      startAt === null || avgDurationMs === null
+        ? null
+        : Math.max(now, startAt + avgDurationMs),
+  };
+};
+
+// Estimates for several jobs, in the same order
+export const estimateJobs = async (jobs: JobData[]): Promise<JobEstimate[]> => {
+  if (jobs.every((job) => isTerminalStatus(job.status))) {
+    return jobs.map(() => NO_ESTIMATE);
+  }
+  const [avgDurationMs, activeCount] = await Promise.all([
+    getAverageJobDuration(),
+    getActiveDownloadCount(),
+  ]);
+  // A job only waits while every slot is busy, so active jobs ~ slots
+  const busySlots = Math.max(1, activeCount);
+  const now = Date.now();
+  return await Promise.all(
+    jobs.map((job) => estimateJob(job, avgDurationMs, busySlots, now)),
+  );
+};
+
+export const estimateJobStatus = async (job: JobData): Promise<JobEstimate> =>
+  (await estimateJobs([job]))[0] ?? NO_ESTIMATE;
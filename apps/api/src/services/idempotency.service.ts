@@ -0,0 +1,156 @@
+/* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Idempotency Service
+ *
+ * Stores Idempotency-Key records per user. A record is reserved atomically
+ * with the fingerprint of the request that first used the key, then holds
+ * that request's response so replays get the same status and body.
+ *
+ * Record states:
+ * - processing: the first request is still running (short lock TTL)
+ * - completed: the response is stored (JOB_TTL_SECONDS)
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { createHash } from "node:crypto";
+import { env } from "../config/env.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+
+// A crashed request frees its key after this long
+const PROCESSING_LOCK_SECONDS = Math.ceil((env.REQUEST_TIMEOUT_MS * 2) / 1000);
+
+// Stored response of the request that first used a key
+export interface StoredResponse {
+  status: number;
+  body: string;
+}
+
+export type IdempotencyReservation =
+  | { outcome: "reserved"; token: string }
+  | { outcome: "replay"; response: StoredResponse }
+  | { outcome: "in_progress" }
+  | { outcome: "mismatch" };
+
+// Reserve the key unless it exists; otherwise return the existing record
+const RESERVE_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  return redis.call("HMGET", KEYS[1], "fingerprint", "state", "status", "body")
+end
+redis.call("HSET", KEYS[1], "fingerprint", ARGV[1], "token", ARGV[2], "state", "processing", "createdAt", ARGV[3])
+redis.call("EXPIRE", KEYS[1], ARGV[4])
+return false
+`;
+
+// Store the response, only if this request still owns the reservation
+const COMPLETE_SCRIPT = `
+if redis.call("HGET", KEYS[1], "token") ~= ARGV[1] then
+  return 0
+end
+redis.call("HSET", KEYS[1], "state", "completed", "status", ARGV[2], "body", ARGV[3], "jobId", ARGV[4])
+redis.call("EXPIRE", KEYS[1], ARGV[5])
+return 1
+`;
+
+// Drop the reservation, only if this request still owns it
+const RELEASE_SCRIPT = `
+if redis.call("HGET", KEYS[1], "token") == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+// JSON with sorted object keys, so key order doesn't change the fingerprint
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, entry]) => [key, canonicalize(entry)]),
+    );
+  }
+  return value;
+};
+
+// Hash of everything that makes two requests "the same request"
+export const fingerprintRequest = (request: {
+  method: string;
+  path: string;
+  userId: string;
+  body: string;
+}): string => {
+  let body = request.body;
+  try {
+    body = JSON.stringify(canonicalize(JSON.parse(body)));
+  } catch {
+    // Not JSON - fingerprint the raw body
+  }
+  return createHash("sha256")
+    .update(`${request.method} ${request.path}\n${request.userId}\n${body}`)
+    .digest("hex");
+};
+
+// Atomically reserve a key for a request, or report why it can't be used
+export const reserveIdempotencyKey = async (
+  userId: string,
+  key: string,
+  fingerprint: string,
+): Promise<IdempotencyReservation> => {
+  const token = crypto.randomUUID();
+  const existing = (await redis.eval(
+    RESERVE_SCRIPT,
+    1,
+    RedisKeys.idempotency(userId, key),
+    fingerprint,
+    token,
+    Date.now(),
+    PROCESSING_LOCK_SECONDS,
+  )) as [string | null, string | null, string | null, string | null] | null;
+
+  if (!existing) return { outcome: "reserved", token };
+
+  const [storedFingerprint, state, status, body] = existing;
+  if (storedFingerprint !== fingerprint) return { outcome: "mismatch" };
+  if (state !== "completed" || status === null || body === null) {
+    return { outcome: "in_progress" };
+  }
+  return {
+    outcome: "replay",
+    response: { status: parseInt(status, 10), body },
+  };
+};
+
+// Store the response for replays
+export const completeIdempotencyKey = async (
+  userId: string,
+  key: string,
+  token: string,
+  response: StoredResponse,
+  jobId: string | null,
+): Promise<void> => {
+  await redis.eval(
+    COMPLETE_SCRIPT,
+    1,
+    RedisKeys.idempotency(userId, key),
+    token,
+    response.status,
+    response.body,
+    jobId ?? "",
+    env.JOB_TTL_SECONDS,
+  );
+};
+
+// Free the key so the client can try again with it
+export const releaseIdempotencyKey = async (
+  userId: string,
+  key: string,
+  token: string,
+): Promise<void> => {
+  await redis.eval(
+    RELEASE_SCRIPT,
+    1,
+    RedisKeys.idempotency(userId, key),
+    token,
+  );
+};
@@ -7,11 +7,50 @@
  * Note: ESLint rules are disabled due to ioredis type definitions
  * not being fully compatible with strict TypeScript settings.
  */
+import type {
+  ArchiveFormat,
+  JobErrorCode,
+  JobPriority,
+} from "../config/env.ts";
 import { env } from "../config/env.ts";
 import { redis, RedisKeys } from "../lib/redis.ts";
+import type { AppliedRetryPolicy } from "../lib/retry-policy.ts";
 
 // Job status enum
-export type JobStatus = "queued" | "processing" | "completed" | "failed";
+export const JOB_STATUSES = [
+  "scheduled",
+  "queued",
+  "processing",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Statuses after which a job will never change again
+export const isTerminalStatus = (status: JobStatus): boolean =>
+  status === "completed" || status === "failed" || status === "cancelled";
+const TERMINAL_STATUSES = JOB_STATUSES.filter(isTerminalStatus);
+
+// Files bundled into one archive by an archive job
+export interface JobArchive {
+  format: ArchiveFormat;
+  fileIds: number[];
+}
+
+// Bytes read by a running job, for progress reporting
+export interface JobTransfer {
+  bytesProcessed: number;
+  totalBytes: number;
+  throughput: number; // Bytes per second over the current run
+}
+
+// Clears the transfer fields of a job that (re)starts
+const NO_TRANSFER = {
+  bytesProcessed: null,
+  totalBytes: null,
+  throughput: null,
+};
 
 // Job data stored in Redis
 export interface JobData {
@@ -20,10 +59,22 @@ export interface JobData {
   userId: string;
   status: JobStatus;
   progress: number;
+  // Set while (and after) a job streams from storage; null when simulated
+  bytesProcessed: number | null;
+  totalBytes: number | null;
+  throughput: number | null;
   downloadUrl: string | null;
   error: string | null;
+  errorCode: JobErrorCode | null;
+  // Policy that decided on automatic retries after the last failure
+  retryPolicy: AppliedRetryPolicy | null;
   canRetry: boolean;
   attempts: number;
+  callbackUrl: string | null;
+  priority: JobPriority;
+  runAt: number | null; // Planned start of a scheduled job
+  batchId: string | null; // Batch the job belongs to (batch.service.ts)
+  archive: JobArchive | null; // Set on archive jobs; fileId is the first file
   createdAt: number;
   updatedAt: number;
 }
@@ -35,31 +86,210 @@ interface RedisJobHash {
   userId: string;
   status: string;
   progress: string;
+  bytesProcessed?: string;
+  totalBytes?: string;
+  throughput?: string;
   downloadUrl: string;
   error: string;
+  errorCode?: string; // Absent on jobs that failed before error codes
+  retryPolicy?: string; // JSON
   canRetry: string;
   attempts: string;
+  callbackUrl: string;
+  priority?: string; // Absent on jobs created before priority lanes
+  runAt?: string;
+  batchId: string; // Empty outside batches
+  archive?: string; // JSON; empty on single-file jobs
   createdAt: string;
   updatedAt: string;
 }
 
-// Create a new job in Redis
+// Options for listing a user's jobs
+export interface ListUserJobsOptions {
+  status?: JobStatus;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: JobListCursor;
+}
+
+// Position after the last returned job (createdAt score + jobId tiebreak)
+export interface JobListCursor {
+  createdAt: number;
+  jobId: string;
+}
+
+// Keep a job in its owner's index sets: all jobs + jobs by current status.
+// Scores are createdAt so lists come back sorted by creation time.
+const indexUserJob = async (
+  userId: string,
+  jobId: string,
+  createdAt: number,
+  status: JobStatus,
+): Promise<void> => {
+  const pipeline = redis.multi();
+  pipeline.zadd(RedisKeys.userJobs(userId), createdAt, jobId);
+  pipeline.expire(RedisKeys.userJobs(userId), env.JOB_TTL_SECONDS);
+  for (const other of JOB_STATUSES) {
+    if (other !== status) {
+      pipeline.zrem(RedisKeys.userJobsByStatus(userId, other), jobId);
+    }
+  }
+  const statusKey = RedisKeys.userJobsByStatus(userId, status);
+  pipeline.zadd(statusKey, createdAt, jobId);
+  pipeline.expire(statusKey, env.JOB_TTL_SECONDS);
+  await pipeline.exec();
+};
+
+// Drop a job from all of its owner's index sets (its hash expired)
+const unindexUserJob = async (userId: string, jobId: string): Promise<void> => {
+  const pipeline = redis.multi();
+  pipeline.zrem(RedisKeys.userJobs(userId), jobId);
+  for (const status of JOB_STATUSES) {
+    pipeline.zrem(RedisKeys.userJobsByStatus(userId, status), jobId);
+  }
+  await pipeline.exec();
+};
+
+// One failure in a job's error history
+export interface JobErrorEntry {
+  attempt: number | null; // Null when no attempt count was known
+  errorCode: JobErrorCode;
+  error: string;
+  failedAt: number;
+}
+
+// Failures kept per job, oldest dropped first
+const MAX_ERROR_HISTORY = 50;
+
+// Job update as stored in the event stream. The id is the Redis Stream
+// entry id, which is monotonic per job and used as the SSE event id.
+export interface JobEvent {
+  id: string;
+  data: string;
+}
+
+// Append to the job's event stream and publish in one step, so live
+// subscribers never see an update that is missing from the stream.
+// The pub/sub message is `{"id": "<entry id>", "data": <update>}`. Jobs of
+// a batch also publish `{"jobId": ..., "id": ..., "data": ...}` on the
+// batch's channel.
+const PUBLISH_JOB_EVENT_SCRIPT = `
+local id = redis.call("XADD", KEYS[1], "MAXLEN", "~", ARGV[1], "*", "data", ARGV[2])
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+redis.call("PUBLISH", KEYS[2], '{"id":"' .. id .. '","data":' .. ARGV[2] .. '}')
+local batchId = redis.call("HGET", KEYS[3], "batchId")
+if batchId and batchId ~= "" then
+  redis.call("PUBLISH", ARGV[4] .. batchId, '{"jobId":"' .. ARGV[5] .. '","id":"' .. id .. '","data":' .. ARGV[2] .. '}')
+end
+return id
+`;
+
+const publishJobEvent = async (
+  jobId: string,
+  update: Record<string, unknown>,
+): Promise<void> => {
+  await redis.eval(
+    PUBLISH_JOB_EVENT_SCRIPT,
+    3,
+    RedisKeys.jobEvents(jobId),
+    RedisKeys.jobUpdates(jobId),
+    RedisKeys.job(jobId),
+    env.JOB_EVENT_HISTORY_SIZE,
+    JSON.stringify(update),
+    env.JOB_TTL_SECONDS,
+    RedisKeys.batchUpdates(""),
+    jobId,
+  );
+};
+
+// Stream entry ids look like "<ms>-<seq>"
+export const isValidJobEventId = (id: string): boolean => /^\d+-\d+$/.test(id);
+
+// Order two stream entry ids (negative when a < b)
+export const compareJobEventIds = (a: string, b: string): number => {
+  const [aMs = 0n, aSeq = 0n] = a.split("-").map(BigInt);
+  const [bMs = 0n, bSeq = 0n] = b.split("-").map(BigInt);
+  if (aMs !== bMs) return aMs < bMs ? -1 : 1;
+  if (aSeq !== bSeq) return aSeq < bSeq ? -1 : 1;
+  return 0;
+};
+
+// Events recorded after the given id (exclusive), oldest first.
+// `truncated` is set when older events were trimmed or expired, so some
+// events after `afterId` may be missing.
+export const getJobEventsSince = async (
+  jobId: string,
+  afterId: string,
+): Promise<{ events: JobEvent[]; truncated: boolean }> => {
+  const key = RedisKeys.jobEvents(jobId);
+  const oldest: [string, string[]][] = await redis.xrange(
+    key,
+    "-",
+    "+",
+    "COUNT",
+    1,
+  );
+  const first = oldest.at(0);
+  const entries: [string, string[]][] = await redis.xrange(
+    key,
+    `(${afterId}`,
+    "+",
+  );
+  return {
+    events: entries.map(([id, fields]) => ({ id, data: fields[1] ?? "{}" })),
+    truncated: !first || compareJobEventIds(first[0], afterId) > 0,
+  };
+};
+
+// Id of the most recent event, or null if none were recorded
+export const getLatestJobEventId = async (
+  jobId: string,
+): Promise<string | null> => {
+  const newest: [string, string[]][] = await redis.xrevrange(
+    RedisKeys.jobEvents(jobId),
+    "+",
+    "-",
+    "COUNT",
+    1,
+  );
+  return newest.at(0)?.[0] ?? null;
+};
+
+// Job hashes outlive a scheduled start by the usual TTL
+const getJobTtlSeconds = (runAt: number | null): number =>
+  env.JOB_TTL_SECONDS +
+  (runAt === null ? 0 : Math.max(0, Math.ceil((runAt - Date.now()) / 1000)));
+
+// Create a new job in Redis. Jobs with a runAt are "scheduled" until then.
 export const createJob = async (
   jobId: string,
   fileId: number,
   userId: string,
+  priority: JobPriority,
+  callbackUrl?: string,
+  runAt?: number,
+  batchId?: string,
+  archive?: JobArchive,
 ): Promise<JobData> => {
   const now = Date.now();
   const job: JobData = {
     id: jobId,
     fileId,
     userId,
-    status: "queued",
+    status: runAt === undefined ? "queued" : "scheduled",
     progress: 0,
+    ...NO_TRANSFER,
     downloadUrl: null,
     error: null,
+    errorCode: null,
+    retryPolicy: null,
     canRetry: false,
     attempts: 0,
+    callbackUrl: callbackUrl ?? null,
+    priority,
+    runAt: runAt ?? null,
+    batchId: batchId ?? null,
+    archive: archive ?? null,
     createdAt: now,
     updatedAt: now,
   };
@@ -71,17 +301,28 @@ export const createJob = async (
     userId: job.userId,
     status: job.status,
     progress: String(job.progress),
+    bytesProcessed: "",
+    totalBytes: "",
+    throughput: "",
     downloadUrl: job.downloadUrl ?? "",
     error: job.error ?? "",
+    errorCode: job.errorCode ?? "",
+    retryPolicy: "",
     canRetry: String(job.canRetry),
     attempts: String(job.attempts),
+    callbackUrl: job.callbackUrl ?? "",
+    priority: job.priority,
+    runAt: job.runAt === null ? "" : String(job.runAt),
+    batchId: job.batchId ?? "",
+    archive: job.archive ? JSON.stringify(job.archive) : "",
     createdAt: String(job.createdAt),
     updatedAt: String(job.updatedAt),
   });
-  await redis.expire(key, env.JOB_TTL_SECONDS);
+  await redis.expire(key, getJobTtlSeconds(job.runAt));
+  await indexUserJob(userId, jobId, now, job.status);
 
   console.log(
-    `[JobService] Created job ${jobId} for file_id=${fileId.toString()}`,
+    `[JobService] Created job ${jobId} for file_id=${fileId.toString()} (${priority} lane)`,
   );
   return job;
 };
@@ -104,27 +345,97 @@ export const getJob = async (jobId: string): Promise<JobData | null> => {
     userId: jobData.userId,
     status: jobData.status as JobStatus,
     progress: parseInt(jobData.progress, 10),
+    bytesProcessed: jobData.bytesProcessed
+      ? parseInt(jobData.bytesProcessed, 10)
+      : null,
+    totalBytes: jobData.totalBytes ? parseInt(jobData.totalBytes, 10) : null,
+    throughput: jobData.throughput ? parseInt(jobData.throughput, 10) : null,
     downloadUrl: jobData.downloadUrl || null,
     error: jobData.error || null,
+    errorCode: jobData.errorCode ? (jobData.errorCode as JobErrorCode) : null,
+    retryPolicy: jobData.retryPolicy
+      ? (JSON.parse(jobData.retryPolicy) as AppliedRetryPolicy)
+      : null,
     canRetry: jobData.canRetry === "true",
     attempts: parseInt(jobData.attempts, 10),
+    callbackUrl: jobData.callbackUrl || null,
+    priority: (jobData.priority ?? env.JOB_PRIORITY_DEFAULT) as JobPriority,
+    runAt: jobData.runAt ? parseInt(jobData.runAt, 10) : null,
+    batchId: jobData.batchId || null,
+    archive: jobData.archive
+      ? (JSON.parse(jobData.archive) as JobArchive)
+      : null,
     createdAt: parseInt(jobData.createdAt, 10),
     updatedAt: parseInt(jobData.updatedAt, 10),
   };
 };
 
-// Update job status
+// Write a job's fields in one step, unless its hash is gone (a write would
+// recreate it without a TTL) or its status is one of ARGV[2] (comma-separated).
+// The hash keeps at least ARGV[1] seconds to live.
+// Returns 1 if the fields were written, 0 if the job is gone and -1 if it
+// is in one of the skipped statuses.
+const SET_JOB_FIELDS_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  return 0
+end
+local status = redis.call("HGET", KEYS[1], "status")
+for skipped in string.gmatch(ARGV[2], "[^,]+") do
+  if status == skipped then
+    return -1
+  end
+end
+redis.call("HSET", KEYS[1], unpack(ARGV, 3))
+if redis.call("TTL", KEYS[1]) < tonumber(ARGV[1]) then
+  redis.call("EXPIRE", KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+// Write a job's fields unless it is gone or in one of `skipStatuses`.
+// Returns whether the fields were written.
+const setJobFields = async (
+  jobId: string,
+  updates: Record<string, string>,
+  skipStatuses: readonly JobStatus[],
+  reason: string,
+): Promise<boolean> => {
+  const written = await redis.eval(
+    SET_JOB_FIELDS_SCRIPT,
+    1,
+    RedisKeys.job(jobId),
+    env.JOB_TTL_SECONDS,
+    skipStatuses.join(","),
+    ...Object.entries(updates).flat(),
+  );
+  if (written === 1) return true;
+  console.log(
+    `[JobService] Skipped ${reason} of job ${jobId}: ${written === 0 ? "job no longer exists" : "job is " + skipStatuses.join("/")}`,
+  );
+  return false;
+};
+
+// Update job status. Nothing is written (or published) if the job has
+// expired or, with `unlessStatus`, is in that status by then; returns whether
+// the update happened.
 export const updateJobStatus = async (
   jobId: string,
   status: JobStatus,
   additionalData?: Partial<{
     progress: number;
+    bytesProcessed: number | null;
+    totalBytes: number | null;
+    throughput: number | null;
     downloadUrl: string;
     error: string;
+    errorCode: JobErrorCode | "";
+    retryPolicy: AppliedRetryPolicy | null;
     canRetry: boolean;
     attempts: number;
+    runAt: number | null;
   }>,
-): Promise<void> => {
+  unlessStatus?: JobStatus,
+): Promise<boolean> => {
   const key = RedisKeys.job(jobId);
   const updates: Record<string, string> = {
     status,
@@ -134,147 +445,452 @@ export const updateJobStatus = async (
   if (additionalData?.progress !== undefined) {
     updates.progress = String(additionalData.progress);
   }
+  for (const field of ["bytesProcessed", "totalBytes", "throughput"] as const) {
+    const value = additionalData?.[field];
+    if (value !== undefined) {
+      updates[field] = value === null ? "" : String(value);
+    }
+  }
   if (additionalData?.downloadUrl !== undefined) {
     updates.downloadUrl = additionalData.downloadUrl;
   }
   if (additionalData?.error !== undefined) {
     updates.error = additionalData.error;
   }
+  if (additionalData?.errorCode !== undefined) {
+    updates.errorCode = additionalData.errorCode;
+  }
+  if (additionalData?.retryPolicy !== undefined) {
+    updates.retryPolicy =
+      additionalData.retryPolicy === null
+        ? ""
+        : JSON.stringify(additionalData.retryPolicy);
+  }
   if (additionalData?.canRetry !== undefined) {
     updates.canRetry = String(additionalData.canRetry);
   }
   if (additionalData?.attempts !== undefined) {
     updates.attempts = String(additionalData.attempts);
   }
+  if (additionalData?.runAt !== undefined) {
+    updates.runAt =
+      additionalData.runAt === null ? "" : String(additionalData.runAt);
+  }
 
-  await redis.hset(key, updates);
-
-  // Publish update for SSE subscribers
-  const updatePayload = {
-    status,
-    ...additionalData,
-  };
-  await redis.publish(
-    RedisKeys.jobUpdates(jobId),
-    JSON.stringify(updatePayload),
+  const written = await setJobFields(
+    jobId,
+    updates,
+    unlessStatus ? [unlessStatus] : [],
+    `update to ${status}`,
   );
+  if (!written) return false;
+
+  // Move the job to its new status set in the owner's index
+  const [userId, createdAt] = await redis.hmget(key, "userId", "createdAt");
+  if (userId && createdAt) {
+    await indexUserJob(userId, jobId, parseInt(createdAt, 10), status);
+  }
+
+  // Record and publish update for SSE subscribers
+  await publishJobEvent(jobId, { status, ...additionalData });
 
   console.log(`[JobService] Updated job ${jobId}: status=${status}`);
+  return true;
+};
+
+// Encode a list cursor as an opaque token
+export const encodeJobListCursor = (cursor: JobListCursor): string =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.jobId])).toString(
+    "base64url",
+  );
+
+// Decode a list cursor, returning null for malformed tokens
+export const decodeJobListCursor = (token: string): JobListCursor | null => {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(token, "base64url").toString("utf8"),
+    ) as unknown;
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === "number" &&
+      typeof decoded[1] === "string"
+    ) {
+      return { createdAt: decoded[0], jobId: decoded[1] };
+    }
+  } catch {
+    // Fall through to invalid cursor
+  }
+  return null;
 };
 
-// Update job progress
+// List a user's jobs sorted by createdAt, one page at a time
+export const listUserJobs = async (
+  userId: string,
+  options: ListUserJobsOptions,
+): Promise<{ jobs: JobData[]; nextCursor: string | null }> => {
+  const key = options.status
+    ? RedisKeys.userJobsByStatus(userId, options.status)
+    : RedisKeys.userJobs(userId);
+  const desc = options.order === "desc";
+  // One job past the page tells whether another page exists
+  const jobs: JobData[] = [];
+  let cursor = options.cursor;
+  let exhausted = false;
+  // Skips past runs of entries that share the cursor's score
+  let offset = 0;
+
+  while (jobs.length <= options.limit && !exhausted) {
+    // Start at the cursor's score (inclusive) and skip entries already seen
+    const from = cursor ? String(cursor.createdAt) : desc ? "+inf" : "-inf";
+    const to = desc ? "-inf" : "+inf";
+    const batchSize = options.limit + 1;
+    const raw: string[] = desc
+      ? await redis.zrange(
+          key,
+          from,
+          to,
+          "BYSCORE",
+          "REV",
+          "LIMIT",
+          offset,
+          batchSize,
+          "WITHSCORES",
+        )
+      : await redis.zrange(
+          key,
+          from,
+          to,
+          "BYSCORE",
+          "LIMIT",
+          offset,
+          batchSize,
+          "WITHSCORES",
+        );
+
+    const entries: JobListCursor[] = [];
+    for (let i = 0; i < raw.length; i += 2) {
+      entries.push({ jobId: raw[i], createdAt: parseInt(raw[i + 1], 10) });
+    }
+    exhausted = entries.length < batchSize;
+
+    // Equal scores are ordered by member, reversed for REV
+    const after = (entry: JobListCursor): boolean => {
+      if (!cursor || entry.createdAt !== cursor.createdAt) return true;
+      return desc ? entry.jobId < cursor.jobId : entry.jobId > cursor.jobId;
+    };
+
+    let advanced = false;
+    for (const entry of entries.filter(after)) {
+      advanced = true;
+      cursor = entry;
+      const job = await getJob(entry.jobId);
+      if (!job) {
+        // Job hash expired - drop it from every index
+        await unindexUserJob(userId, entry.jobId);
+        continue;
+      }
+      jobs.push(job);
+      if (jobs.length > options.limit) break;
+    }
+
+    // Whole batch sat at or before the cursor - read further along
+    offset = advanced ? 0 : offset + batchSize;
+  }
+
+  const hasMore = jobs.length > options.limit;
+  const page = jobs.slice(0, options.limit);
+  const last = page.at(-1);
+  return {
+    jobs: page,
+    nextCursor:
+      hasMore && last
+        ? encodeJobListCursor({ createdAt: last.createdAt, jobId: last.id })
+        : null,
+  };
+};
+
+// Update job progress, with the bytes read so far when streaming
 export const updateJobProgress = async (
   jobId: string,
   progress: number,
+  transfer?: JobTransfer,
 ): Promise<void> => {
-  const key = RedisKeys.job(jobId);
-  const updates = {
+  const updates: Record<string, string> = {
     progress: String(progress),
     updatedAt: String(Date.now()),
   };
+  if (transfer) {
+    updates.bytesProcessed = String(transfer.bytesProcessed);
+    updates.totalBytes = String(transfer.totalBytes);
+    updates.throughput = String(transfer.throughput);
+  }
 
-  await redis.hset(key, updates);
-
-  // Publish progress update for SSE subscribers
-  await redis.publish(
-    RedisKeys.jobUpdates(jobId),
-    JSON.stringify({ progress, status: "processing" }),
+  // A job that finished or was cancelled meanwhile keeps its final state
+  const written = await setJobFields(
+    jobId,
+    updates,
+    TERMINAL_STATUSES,
+    "progress update",
   );
+  if (!written) return;
+
+  // Record and publish progress update for SSE subscribers
+  await publishJobEvent(jobId, { progress, status: "processing", ...transfer });
 };
 
 // Mark job as processing
 export const markJobProcessing = async (jobId: string): Promise<void> => {
-  await updateJobStatus(jobId, "processing", { progress: 0 });
+  await updateJobStatus(jobId, "processing", { progress: 0, ...NO_TRANSFER });
 
   // Add to processing set for watchdog monitoring
   await redis.zadd(RedisKeys.jobsProcessing, Date.now(), jobId);
 };
 
-// Mark job as completed
+// Mark job as completed. Returns false (and leaves the job alone) if it was
+// cancelled in the meantime.
 export const markJobCompleted = async (
   jobId: string,
   downloadUrl: string,
-): Promise<void> => {
-  await updateJobStatus(jobId, "completed", {
-    progress: 100,
-    downloadUrl,
-  });
+  transfer?: JobTransfer,
+): Promise<boolean> => {
+  const written = await updateJobStatus(
+    jobId,
+    "completed",
+    { progress: 100, ...transfer, downloadUrl },
+    "cancelled",
+  );
 
   // Remove from processing set
   await redis.zrem(RedisKeys.jobsProcessing, jobId);
+  return written;
+};
+
+// Keep every failure, not just the last one, for the dead-letter queue
+const recordJobError = async (
+  jobId: string,
+  error: string,
+  errorCode: JobErrorCode,
+  attempts?: number,
+): Promise<void> => {
+  const entry: JobErrorEntry = {
+    attempt: attempts ?? null,
+    errorCode,
+    error,
+    failedAt: Date.now(),
+  };
+  const errorsKey = RedisKeys.jobErrors(jobId);
+  await redis
+    .multi()
+    .rpush(errorsKey, JSON.stringify(entry))
+    .ltrim(errorsKey, -MAX_ERROR_HISTORY, -1)
+    .expire(errorsKey, env.JOB_TTL_SECONDS)
+    .exec();
 };
 
-// Mark job as failed
+// Mark job as failed for good. Returns false (and leaves the job alone) if
+// it was cancelled in the meantime.
 export const markJobFailed = async (
   jobId: string,
   error: string,
+  errorCode: JobErrorCode,
   canRetry: boolean = true,
   attempts?: number,
+  retryPolicy?: AppliedRetryPolicy,
+): Promise<boolean> => {
+  const written = await updateJobStatus(
+    jobId,
+    "failed",
+    { error, errorCode, retryPolicy, canRetry, attempts },
+    "cancelled",
+  );
+
+  // Remove from processing set
+  await redis.zrem(RedisKeys.jobsProcessing, jobId);
+
+  if (written) await recordJobError(jobId, error, errorCode, attempts);
+  return written;
+};
+
+// Put a job back to "queued" after a failed attempt that BullMQ retries
+// (it waits as a delayed job for the backoff). The failure is recorded like
+// a final one but the job is not failed: it can still be cancelled, and
+// clients keep waiting for the next attempt.
+export const markJobRetrying = async (
+  jobId: string,
+  error: string,
+  errorCode: JobErrorCode,
+  attempts: number,
+  retryPolicy: AppliedRetryPolicy,
+): Promise<boolean> => {
+  const written = await updateJobStatus(
+    jobId,
+    "queued",
+    {
+      progress: 0,
+      ...NO_TRANSFER,
+      error,
+      errorCode,
+      retryPolicy,
+      canRetry: false,
+      attempts,
+    },
+    "cancelled",
+  );
+
+  // Remove from processing set
+  await redis.zrem(RedisKeys.jobsProcessing, jobId);
+
+  if (written) await recordJobError(jobId, error, errorCode, attempts);
+  return written;
+};
+
+// Failures of a job, oldest first
+export const getJobErrors = async (jobId: string): Promise<JobErrorEntry[]> => {
+  const raw: string[] = await redis.lrange(RedisKeys.jobErrors(jobId), 0, -1);
+  return raw.map((entry) => JSON.parse(entry) as JobErrorEntry);
+};
+
+// Reset a failed job back to queued for a manual retry.
+// Attempts are kept so the history carries over to the new run.
+export const resetJobForRetry = async (jobId: string): Promise<void> => {
+  await updateJobStatus(jobId, "queued", {
+    progress: 0,
+    ...NO_TRANSFER,
+    downloadUrl: "",
+    error: "",
+    errorCode: "",
+    retryPolicy: null,
+    canRetry: false,
+    runAt: null,
+  });
+
+  // Give the retried job a fresh TTL
+  await redis.expire(RedisKeys.job(jobId), env.JOB_TTL_SECONDS);
+};
+
+// Move a job that has not started to a new start time, or to "queued" when
+// runAt is null (run as soon as a worker is free)
+export const rescheduleJob = async (
+  jobId: string,
+  runAt: number | null,
 ): Promise<void> => {
-  await updateJobStatus(jobId, "failed", {
-    error,
-    canRetry,
-    attempts,
+  await updateJobStatus(jobId, runAt === null ? "queued" : "scheduled", {
+    runAt,
+  });
+  await redis.expire(RedisKeys.job(jobId), getJobTtlSeconds(runAt));
+};
+
+// Mark job as cancelled
+export const markJobCancelled = async (jobId: string): Promise<void> => {
+  await updateJobStatus(jobId, "cancelled", {
+    errorCode: "cancelled",
+    canRetry: false,
   });
 
   // Remove from processing set
   await redis.zrem(RedisKeys.jobsProcessing, jobId);
 };
 
-// Check and set idempotency key
-export const checkIdempotencyKey = async (
-  idempotencyKey: string,
-): Promise<string | null> => {
-  const key = RedisKeys.idempotency(idempotencyKey);
-  const existingJobId = await redis.get(key);
-  return existingJobId;
+// Flag a job for cancellation so an active worker stops processing it
+export const requestJobCancellation = async (jobId: string): Promise<void> => {
+  const key = RedisKeys.cancelRequested(jobId);
+  await redis.set(key, "1", "EX", env.JOB_TTL_SECONDS);
 };
 
-// Set idempotency key
-export const setIdempotencyKey = async (
-  idempotencyKey: string,
+// Check whether cancellation was requested for a job
+export const isJobCancellationRequested = async (
   jobId: string,
-): Promise<void> => {
-  const key = RedisKeys.idempotency(idempotencyKey);
-  await redis.set(key, jobId, "EX", env.JOB_TTL_SECONDS);
+): Promise<boolean> => {
+  const key = RedisKeys.cancelRequested(jobId);
+  const exists = await redis.exists(key);
+  return exists === 1;
 };
 
-// Rate limiting: check user active jobs
-export const checkUserRateLimit = async (
+// ============ Per-user Concurrency ============
+
+// Admitted jobs stay in the set without a job hash only briefly (between
+// admission and createJob); older hashless members are leaked slots
+const ADMISSION_GRACE_MS = 60 * 1000;
+
+// Admit a job into the user's active set (jobId -> admitted at) if a slot is
+// free, in one step. Members that finished (completed, failed, cancelled)
+// or leaked are pruned first; jobs waiting for an automatic retry are
+// "queued" and keep their slot.
+// Returns {admitted (0/1), active jobs}. Re-admitting a member is a no-op.
+// Job hashes are read by prefix rather than passed as KEYS, which is fine on
+// a single Redis but not on Redis Cluster.
+const ADMIT_USER_JOB_SCRIPT = `
+local members = redis.call("ZRANGE", KEYS[1], 0, -1, "WITHSCORES")
+for i = 1, #members, 2 do
+  local id = members[i]
+  local status = redis.call("HGET", ARGV[4] .. id, "status")
+  local leaked = not status and tonumber(members[i + 1]) < tonumber(ARGV[5]) - tonumber(ARGV[6])
+  if status == "completed" or status == "failed" or status == "cancelled" or leaked then
+    redis.call("ZREM", KEYS[1], id)
+  end
+end
+if redis.call("ZSCORE", KEYS[1], ARGV[1]) then
+  return {1, redis.call("ZCARD", KEYS[1])}
+end
+local active = redis.call("ZCARD", KEYS[1])
+if active >= tonumber(ARGV[2]) then
+  return {0, active}
+end
+redis.call("ZADD", KEYS[1], ARGV[5], ARGV[1])
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+return {1, active + 1}
+`;
+
+// Take one of the user's concurrent download slots for a job
+export const admitUserJob = async (
   userId: string,
-): Promise<{ allowed: boolean; activeJobs: number }> => {
-  const key = RedisKeys.userActiveJobs(userId);
-  const activeJobsStr = await redis.get(key);
-  const activeJobs = parseInt(activeJobsStr ?? "0", 10);
+  jobId: string,
+): Promise<{ admitted: boolean; activeJobs: number }> => {
+  const [admitted, activeJobs] = (await redis.eval(
+    ADMIT_USER_JOB_SCRIPT,
+    1,
+    RedisKeys.userActiveJobs(userId),
+    jobId,
+    env.MAX_CONCURRENT_DOWNLOADS_PER_USER,
+    env.JOB_TTL_SECONDS,
+    RedisKeys.job(""),
+    Date.now(),
+    ADMISSION_GRACE_MS,
+  )) as [number, number];
 
-  return {
-    allowed: activeJobs < env.MAX_CONCURRENT_DOWNLOADS_PER_USER,
-    activeJobs,
-  };
+  return { admitted: admitted === 1, activeJobs };
 };
 
-// Rate limiting: increment user active jobs
-export const incrementUserActiveJobs = async (
+// Give the job's slot back. Safe to call more than once.
+export const releaseUserJob = async (
   userId: string,
+  jobId: string,
 ): Promise<void> => {
-  const key = RedisKeys.userActiveJobs(userId);
-  await redis.incr(key);
-  // Set TTL for safety (in case decrement fails)
-  await redis.expire(key, env.JOB_TTL_SECONDS);
+  await redis.zrem(RedisKeys.userActiveJobs(userId), jobId);
 };
 
-// Rate limiting: decrement user active jobs
-export const decrementUserActiveJobs = async (
+// Jobs holding a slot, with the time they were admitted
+export const getUserActiveJobs = async (
   userId: string,
-): Promise<void> => {
-  const key = RedisKeys.userActiveJobs(userId);
-  const current = await redis.decr(key);
-  // Clean up if count reaches 0 or goes negative
-  if (current <= 0) {
-    await redis.del(key);
+): Promise<{ jobId: string; admittedAt: number }[]> => {
+  const raw: string[] = await redis.zrange(
+    RedisKeys.userActiveJobs(userId),
+    0,
+    -1,
+    "WITHSCORES",
+  );
+  const entries: { jobId: string; admittedAt: number }[] = [];
+  for (let i = 0; i < raw.length; i += 2) {
+    entries.push({ jobId: raw[i], admittedAt: parseInt(raw[i + 1], 10) });
   }
+  return entries;
 };
 
+// Slots younger than this may belong to a request that is still creating
+// or resetting its job
+export const isPastAdmissionGrace = (admittedAt: number): boolean =>
+  admittedAt < Date.now() - ADMISSION_GRACE_MS;
+
 // Get stuck jobs (for watchdog)
 export const getStuckJobs = async (
   stuckThresholdMs: number = 10 * 60 * 1000,
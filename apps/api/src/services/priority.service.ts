@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return */
+/**
+ * Priority Lane Service
+ *
+ * Decides which priority lanes a caller may use and tracks how long jobs
+ * wait in each lane before a worker picks them up.
+ *
+ * A tier's lane from JOB_PRIORITY_BY_TIER (JOB_PRIORITY_DEFAULT when not
+ * listed) is both its default and the highest lane it may request; lower
+ * lanes are always allowed. Admins may use every lane.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type { JobPriority } from "../config/env.ts";
+import { env, JOB_PRIORITIES } from "../config/env.ts";
+import { getLaneWaitingCounts } from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import type { Principal } from "../middleware/auth.ts";
+import { hasRole } from "../middleware/auth.ts";
+
+// Recent queue waits kept per lane for the averages
+const MAX_WAIT_SAMPLES = 100;
+
+// Wait stats of one lane on /health/queue
+export interface LaneStats {
+  waiting: number;
+  samples: number;
+  avgWaitMs: number;
+  maxWaitMs: number;
+}
+
+// Lane a caller's jobs go to when none is requested
+export const getDefaultPriority = (principal: Principal): JobPriority =>
+  env.JOB_PRIORITY_BY_TIER[principal.tier] ?? env.JOB_PRIORITY_DEFAULT;
+
+// Lanes a caller may request, highest first
+export const getAllowedPriorities = (principal: Principal): JobPriority[] => {
+  if (hasRole(principal, "admin")) return [...JOB_PRIORITIES];
+  return JOB_PRIORITIES.slice(
+    JOB_PRIORITIES.indexOf(getDefaultPriority(principal)),
+  );
+};
+
+// Record how long a job waited in its lane (called by the worker)
+export const recordLaneWait = async (
+  lane: JobPriority,
+  waitMs: number,
+): Promise<void> => {
+  const key = RedisKeys.laneWaits(lane);
+  await redis
+    .multi()
+    .lpush(key, Math.max(0, Math.round(waitMs)))
+    .ltrim(key, 0, MAX_WAIT_SAMPLES - 1)
+    .exec();
+};
+
+// Waiting jobs and recent wait times per lane
+export const getLaneStats = async (): Promise<
+  Record<JobPriority, LaneStats>
+> => {
+  const [waiting, samplesByLane] = await Promise.all([
+    getLaneWaitingCounts(),
+    Promise.all(
+      JOB_PRIORITIES.map(
+        (lane): Promise<string[]> =>
+          redis.lrange(RedisKeys.laneWaits(lane), 0, -1),
+      ),
+    ),
+  ]);
+
+  return Object.fromEntries(
+    JOB_PRIORITIES.map((lane, i) => {
+      const waits = (samplesByLane[i] ?? []).map(Number);
+      const total = waits.reduce((sum, wait) => sum + wait, 0);
+      return [
+        lane,
+        {
+          waiting: waiting[lane],
+          samples: waits.length,
+          avgWaitMs: waits.length === 0 ? 0 : Math.round(total / waits.length),
+          maxWaitMs: waits.length === 0 ? 0 : Math.max(...waits),
+        },
+      ];
+    }),
+  ) as Record<JobPriority, LaneStats>;
+};
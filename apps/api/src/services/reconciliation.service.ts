@@ -0,0 +1,210 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-argument */
+/**
+ * Reconciliation Service
+ *
+ * Detects drift between Redis job state and S3:
+ * - completed jobs whose artifact is gone from storage
+ * - `user:*:active-jobs` slots held by jobs that are no longer active
+ * - idempotency keys pointing at expired job hashes
+ *
+ * Safe fixes are applied in place and a report is stored in Redis.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { redis, RedisKeys } from "../lib/redis.ts";
+import {
+  checkS3Availability,
+  checkS3KeyExists,
+  getExportKey,
+} from "../lib/s3.ts";
+import {
+  getJob,
+  getUserActiveJobs,
+  isPastAdmissionGrace,
+  isTerminalStatus,
+  markJobFailed,
+  releaseUserJob,
+} from "./job.service.ts";
+
+// Keep reports small - only a sample of affected entries is listed
+const MAX_REPORTED_ENTRIES = 100;
+const SCAN_BATCH_SIZE = 200;
+
+export interface ReconciliationReport {
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  scanned: {
+    jobs: number;
+    activeJobSets: number;
+    idempotencyKeys: number;
+  };
+  missingArtifacts: {
+    count: number;
+    fixed: number;
+    errors: number; // Checks storage didn't answer
+    jobs: { jobId: string; fileId: number }[];
+  };
+  staleSlots: {
+    count: number;
+    fixed: number;
+    entries: { userId: string; jobId: string; status: string }[];
+  };
+  danglingIdempotencyKeys: {
+    count: number;
+    fixed: number;
+    keys: string[];
+  };
+}
+
+// Iterate keys matching a pattern without blocking Redis (no KEYS)
+async function* scanKeys(pattern: string): AsyncGenerator<string> {
+  let cursor = "0";
+  do {
+    const [nextCursor, keys] = (await redis.scan(
+      cursor,
+      "MATCH",
+      pattern,
+      "COUNT",
+      SCAN_BATCH_SIZE,
+    )) as [string, string[]];
+    cursor = nextCursor;
+    for (const key of keys) {
+      yield key;
+    }
+  } while (cursor !== "0");
+}
+
+// Job hashes only - `job:` is followed directly by the jobId
+const isJobHashKey = (key: string): boolean =>
+  key.split(":").length === 2 && key.startsWith("job:");
+
+// Status of a job that should no longer hold a concurrency slot, or null
+// while it is still active. Jobs waiting for an automatic retry are queued.
+const getSlotHolderStatus = async (jobId: string): Promise<string | null> => {
+  const job = await getJob(jobId);
+  if (!job) return "expired";
+  return isTerminalStatus(job.status) ? job.status : null;
+};
+
+// Run a full reconciliation pass
+export const runReconciliation = async (): Promise<ReconciliationReport> => {
+  const startedAt = Date.now();
+  const report: ReconciliationReport = {
+    startedAt,
+    finishedAt: startedAt,
+    durationMs: 0,
+    scanned: { jobs: 0, activeJobSets: 0, idempotencyKeys: 0 },
+    missingArtifacts: { count: 0, fixed: 0, errors: 0, jobs: [] },
+    staleSlots: { count: 0, fixed: 0, entries: [] },
+    danglingIdempotencyKeys: { count: 0, fixed: 0, keys: [] },
+  };
+
+  // 1. Job hashes: completed jobs must still have their artifact
+  for await (const key of scanKeys("job:*")) {
+    if (!isJobHashKey(key)) continue;
+    const job = await getJob(key.slice("job:".length));
+    if (!job) continue;
+    report.scanned.jobs++;
+
+    if (job.status !== "completed") continue;
+
+    // An archive's artifact is its export; fileId is only its first file.
+    // A failed check (outage, timeout, access denied) proves nothing: the
+    // job is counted and left alone, and the pass goes on.
+    let available: boolean;
+    try {
+      available = job.archive
+        ? await checkS3KeyExists(getExportKey(job.id, job.archive.format))
+        : (await checkS3Availability(job.fileId)).available;
+    } catch (err) {
+      report.missingArtifacts.errors++;
+      console.error(
+        `[Reconcile] Could not check artifact of job ${job.id}:`,
+        err,
+      );
+      continue;
+    }
+    if (available) continue;
+
+    report.missingArtifacts.count++;
+    if (report.missingArtifacts.jobs.length < MAX_REPORTED_ENTRIES) {
+      report.missingArtifacts.jobs.push({ jobId: job.id, fileId: job.fileId });
+    }
+
+    // Presigned URL points at nothing. A retry would hit the same missing
+    // file, so like any not_found failure it can't be retried.
+    await markJobFailed(
+      job.id,
+      "Artifact missing from storage",
+      "not_found",
+      false,
+    );
+    report.missingArtifacts.fixed++;
+  }
+
+  // 2. Concurrency slots must belong to jobs that are still active
+  for await (const key of scanKeys(RedisKeys.userActiveJobs("*"))) {
+    const userId = key.slice("user:".length, -":active-jobs".length);
+    report.scanned.activeJobSets++;
+
+    for (const { jobId, admittedAt } of await getUserActiveJobs(userId)) {
+      // The request that took the slot may still be creating the job
+      if (!isPastAdmissionGrace(admittedAt)) continue;
+
+      const status = await getSlotHolderStatus(jobId);
+      if (status === null) continue;
+
+      report.staleSlots.count++;
+      if (report.staleSlots.entries.length < MAX_REPORTED_ENTRIES) {
+        report.staleSlots.entries.push({ userId, jobId, status });
+      }
+
+      await releaseUserJob(userId, jobId);
+      report.staleSlots.fixed++;
+    }
+  }
+
+  // 3. Idempotency keys must point at a live job
+  for await (const key of scanKeys(RedisKeys.idempotency("*", "*"))) {
+    // Empty while the first request is still running
+    const jobId: string | null = await redis.hget(key, "jobId");
+    report.scanned.idempotencyKeys++;
+    if (!jobId) continue;
+
+    const exists = await redis.exists(RedisKeys.job(jobId));
+    if (exists === 1) continue;
+
+    report.danglingIdempotencyKeys.count++;
+    if (report.danglingIdempotencyKeys.keys.length < MAX_REPORTED_ENTRIES) {
+      report.danglingIdempotencyKeys.keys.push(key);
+    }
+
+    await redis.del(key);
+    report.danglingIdempotencyKeys.fixed++;
+  }
+
+  report.finishedAt = Date.now();
+  report.durationMs = report.finishedAt - startedAt;
+
+  await redis.set(RedisKeys.reconcileReport, JSON.stringify(report));
+
+  console.log(
+    `[Reconcile] Completed in ${report.durationMs.toString()}ms: ` +
+      `${report.missingArtifacts.count.toString()} missing artifacts ` +
+      `(${report.missingArtifacts.errors.toString()} checks failed), ` +
+      `${report.staleSlots.count.toString()} stale concurrency slots, ` +
+      `${report.danglingIdempotencyKeys.count.toString()} dangling idempotency keys`,
+  );
+
+  return report;
+};
+
+// Get the report from the most recent run
+export const getLatestReconciliationReport =
+  async (): Promise<ReconciliationReport | null> => {
+    const data = await redis.get(RedisKeys.reconcileReport);
+    if (!data) return null;
+    return JSON.parse(data) as ReconciliationReport;
+  };
@@ -0,0 +1,205 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-argument */
+/**
+ * Watchdog Service
+ *
+ * Recovers jobs that stay in `processing` because their worker died.
+ * Reads the `jobs:processing` sorted set written by markJobProcessing and
+ * either re-enqueues or fails jobs stuck past WATCHDOG_STUCK_THRESHOLD_MS.
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import type { JobPriority } from "../config/env.ts";
+import { env } from "../config/env.ts";
+import { JobTimeoutError } from "../lib/job-errors.ts";
+import { getDownloadJobState, requeueDownloadJob } from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import { getRetryPolicy } from "../lib/retry-policy.ts";
+import { failJobForGood } from "./dead-letter.service.ts";
+import type { JobData } from "./job.service.ts";
+import { getJob, getStuckJobs, updateJobStatus } from "./job.service.ts";
+
+// Counters shown on /health/queue
+export interface WatchdogStats {
+  runs: number;
+  requeued: number;
+  failed: number;
+  cleared: number;
+  lastRunAt: number | null;
+}
+
+// BullMQ states in which the queue still owns the job
+const PENDING_STATES = new Set(["waiting", "delayed", "prioritized"]);
+
+let watchdogInterval: NodeJS.Timeout | null = null;
+
+const incrementStat = async (
+  field: keyof Omit<WatchdogStats, "lastRunAt">,
+): Promise<void> => {
+  await redis.hincrby(RedisKeys.watchdogStats, field, 1);
+};
+
+// Re-enqueue a stuck job, counting the lost run as an attempt
+const requeueStuckJob = async (
+  jobId: string,
+  fileId: number,
+  userId: string,
+  priority: JobPriority,
+  createdAt: number,
+  attempts: number,
+): Promise<void> => {
+  await updateJobStatus(jobId, "queued", { progress: 0, attempts });
+  await redis.zrem(RedisKeys.jobsProcessing, jobId);
+
+  // The user's concurrency slot stays taken - the job is still active
+  await requeueDownloadJob({
+    jobId,
+    fileId,
+    userId,
+    priority,
+    createdAt,
+    previousAttempts: attempts,
+  });
+  await incrementStat("requeued");
+
+  console.warn(
+    `[Watchdog] Re-enqueued stuck job ${jobId} (attempts: ${attempts.toString()})`,
+  );
+};
+
+// Fail a stuck job the way the worker fails a job for good (webhook,
+// dead-letter entry, released slot)
+const failStuckJob = async (job: JobData, attempts: number): Promise<void> => {
+  const jobId = job.id;
+  const thresholdSec = Math.round(env.WATCHDOG_STUCK_THRESHOLD_MS / 1000);
+  await failJobForGood(
+    {
+      jobId,
+      fileId: job.fileId,
+      userId: job.userId,
+      priority: job.priority,
+      createdAt: job.createdAt,
+    },
+    new JobTimeoutError(
+      `Job stuck in processing for more than ${thresholdSec.toString()}s (worker presumed dead)`,
+    ),
+    attempts,
+    getRetryPolicy("timeout"),
+  );
+  await incrementStat("failed");
+
+  console.warn(`[Watchdog] Failed stuck job ${jobId}`);
+};
+
+// Handle a single job from the processing set
+const recoverJob = async (jobId: string): Promise<void> => {
+  const job = await getJob(jobId);
+
+  // Expired or already finished - the set entry is stale
+  if (job?.status !== "processing") {
+    await redis.zrem(RedisKeys.jobsProcessing, jobId);
+    await incrementStat("cleared");
+    return;
+  }
+
+  const state = await getDownloadJobState(jobId);
+
+  // A live worker holds the lock - BullMQ's stalled check owns this job
+  if (state === "active") {
+    console.warn(
+      `[Watchdog] Job ${jobId} is still active in the queue, leaving it alone`,
+    );
+    return;
+  }
+
+  // BullMQ already moved it back to the queue (stall recovery) - resync status
+  if (state && PENDING_STATES.has(state)) {
+    await updateJobStatus(jobId, "queued", { progress: 0 });
+    await redis.zrem(RedisKeys.jobsProcessing, jobId);
+    await incrementStat("cleared");
+    return;
+  }
+
+  // Queue entry is gone or finished without updating the job. A dead worker
+  // counts as a timed-out attempt, so the timeout policy caps requeues.
+  const attempts = job.attempts + 1;
+  if (
+    env.WATCHDOG_ACTION === "requeue" &&
+    attempts < getRetryPolicy("timeout").maxAttempts
+  ) {
+    await requeueStuckJob(
+      jobId,
+      job.fileId,
+      job.userId,
+      job.priority,
+      job.createdAt,
+      attempts,
+    );
+  } else {
+    await failStuckJob(job, attempts);
+  }
+};
+
+// Run a single watchdog pass
+export const runWatchdogPass = async (): Promise<void> => {
+  // Only one worker process runs a pass at a time
+  const lock = await redis.set(
+    RedisKeys.watchdogLock,
+    String(process.pid),
+    "PX",
+    Math.max(env.WATCHDOG_INTERVAL_MS, 1000),
+    "NX",
+  );
+  if (lock !== "OK") return;
+
+  const stuckJobs = await getStuckJobs(env.WATCHDOG_STUCK_THRESHOLD_MS);
+  if (stuckJobs.length > 0) {
+    console.log(`[Watchdog] Found ${stuckJobs.length.toString()} stuck jobs`);
+  }
+
+  for (const jobId of stuckJobs) {
+    try {
+      await recoverJob(jobId);
+    } catch (error) {
+      console.error(`[Watchdog] Failed to recover job ${jobId}:`, error);
+    }
+  }
+
+  await incrementStat("runs");
+  await redis.hset(RedisKeys.watchdogStats, "lastRunAt", String(Date.now()));
+};
+
+// Get watchdog counters
+export const getWatchdogStats = async (): Promise<WatchdogStats> => {
+  const data = await redis.hgetall(RedisKeys.watchdogStats);
+  return {
+    runs: parseInt(data.runs ?? "0", 10),
+    requeued: parseInt(data.requeued ?? "0", 10),
+    failed: parseInt(data.failed ?? "0", 10),
+    cleared: parseInt(data.cleared ?? "0", 10),
+    lastRunAt: data.lastRunAt ? parseInt(data.lastRunAt, 10) : null,
+  };
+};
+
+// Start the watchdog loop
+export const startWatchdog = (): void => {
+  if (env.WATCHDOG_INTERVAL_MS === 0 || watchdogInterval) return;
+
+  watchdogInterval = setInterval(() => {
+    runWatchdogPass().catch((error: unknown) => {
+      console.error("[Watchdog] Pass failed:", error);
+    });
+  }, env.WATCHDOG_INTERVAL_MS);
+
+  console.log(
+    `[Watchdog] Started (interval: ${(env.WATCHDOG_INTERVAL_MS / 1000).toString()}s, threshold: ${(env.WATCHDOG_STUCK_THRESHOLD_MS / 1000).toString()}s, action: ${env.WATCHDOG_ACTION})`,
+  );
+};
+
+// Stop the watchdog loop
+export const stopWatchdog = (): void => {
+  if (!watchdogInterval) return;
+  clearInterval(watchdogInterval);
+  watchdogInterval = null;
+  console.log("[Watchdog] Stopped");
+};
@@ -0,0 +1,199 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+/**
+ * Webhook Service
+ *
+ * Notifies a job's callbackUrl when the job completes or finally fails.
+ * Deliveries run on the webhooks queue; every attempt is signed and
+ * recorded in a per-job history.
+ *
+ * Each request carries:
+ * - `X-Webhook-Id`: delivery ID, stable across retries (dedupe on this)
+ * - `X-Webhook-Timestamp`: unix seconds when the attempt was sent
+ * - `X-Webhook-Signature`: `sha256=` + hex HMAC-SHA256 of `<timestamp>.<body>`
+ *   keyed with WEBHOOK_SIGNING_SECRET
+ *
+ * Note: ESLint rules are disabled due to ioredis type definitions
+ * not being fully compatible with strict TypeScript settings.
+ */
+import { UnrecoverableError } from "bullmq";
+import { createHmac } from "node:crypto";
+import type { JobErrorCode } from "../config/env.ts";
+import { env } from "../config/env.ts";
+import { getCallbackUrlViolation } from "../lib/callback-url.ts";
+import type { WebhookDeliveryData } from "../lib/queue.ts";
+import { addWebhookDelivery } from "../lib/queue.ts";
+import { redis, RedisKeys } from "../lib/redis.ts";
+import { getJob } from "./job.service.ts";
+
+// Keep the per-job history bounded even for endpoints that never recover
+const MAX_DELIVERY_HISTORY = 50;
+
+export type WebhookEvent = "job.completed" | "job.failed";
+
+// Body POSTed to the callbackUrl
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: number;
+  job: {
+    jobId: string;
+    fileId: number;
+    status: string;
+    downloadUrl: string | null;
+    error: string | null;
+    errorCode: JobErrorCode | null;
+    canRetry: boolean;
+    attempts: number;
+  };
+}
+
+// One delivery attempt in a job's webhook history
+export interface WebhookDeliveryAttempt {
+  deliveryId: string;
+  event: WebhookEvent;
+  url: string;
+  attempt: number;
+  timestamp: number;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+  success: boolean;
+}
+
+// Compute the signature header value for a payload
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp.toString()}.${body}`).digest("hex")}`;
+
+// Queue a webhook for a job that just reached a final state.
+// No-op for jobs created without a callbackUrl.
+export const enqueueJobWebhook = async (jobId: string): Promise<void> => {
+  const job = await getJob(jobId);
+  if (!job?.callbackUrl) return;
+  if (job.status !== "completed" && job.status !== "failed") return;
+
+  const payload: WebhookPayload = {
+    id: crypto.randomUUID(),
+    event: job.status === "completed" ? "job.completed" : "job.failed",
+    createdAt: Date.now(),
+    job: {
+      jobId: job.id,
+      fileId: job.fileId,
+      status: job.status,
+      downloadUrl: job.downloadUrl,
+      error: job.error,
+      errorCode: job.errorCode,
+      canRetry: job.canRetry,
+      attempts: job.attempts,
+    },
+  };
+
+  await addWebhookDelivery({
+    deliveryId: payload.id,
+    jobId: job.id,
+    url: job.callbackUrl,
+    payload: JSON.stringify(payload),
+  });
+};
+
+const recordDeliveryAttempt = async (
+  jobId: string,
+  attempt: WebhookDeliveryAttempt,
+): Promise<void> => {
+  const key = RedisKeys.webhookDeliveries(jobId);
+  await redis.rpush(key, JSON.stringify(attempt));
+  await redis.ltrim(key, -MAX_DELIVERY_HISTORY, -1);
+  await redis.expire(key, env.JOB_TTL_SECONDS);
+};
+
+// POST a delivery once. Throws on failure so the queue retries it; a URL
+// that now points at a non-public address fails the delivery for good.
+export const deliverWebhook = async (
+  data: WebhookDeliveryData,
+  attempt: number,
+): Promise<void> => {
+  const secret = env.WEBHOOK_SIGNING_SECRET;
+  if (!secret) {
+    throw new UnrecoverableError("WEBHOOK_SIGNING_SECRET is not configured");
+  }
+
+  const { event } = JSON.parse(data.payload) as WebhookPayload;
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startTime = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let permanent = false;
+
+  try {
+    // DNS may have changed since the job was created
+    const violation = await getCallbackUrlViolation(data.url);
+    if (violation !== null) {
+      error = violation;
+      permanent = true;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Host lookup failed";
+  }
+
+  if (error === null) {
+    try {
+      const response = await fetch(data.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": data.deliveryId,
+          "X-Webhook-Timestamp": timestamp.toString(),
+          "X-Webhook-Signature": signWebhookPayload(
+            secret,
+            timestamp,
+            data.payload,
+          ),
+        },
+        body: data.payload,
+        signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+        // A redirect could lead to an internal host; it fails the attempt
+        redirect: "manual",
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status.toString()}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Request failed";
+    }
+  }
+
+  await recordDeliveryAttempt(data.jobId, {
+    deliveryId: data.deliveryId,
+    event,
+    url: data.url,
+    attempt,
+    timestamp: startTime,
+    statusCode,
+    error,
+    durationMs: Date.now() - startTime,
+    success: error === null,
+  });
+
+  if (error !== null) {
+    throw permanent ? new UnrecoverableError(error) : new Error(error);
+  }
+  console.log(
+    `[Webhook] Delivered ${event} for job ${data.jobId} (attempt ${attempt.toString()})`,
+  );
+};
+
+// Get a job's delivery attempts, oldest first
+export const getWebhookDeliveries = async (
+  jobId: string,
+): Promise<WebhookDeliveryAttempt[]> => {
+  const entries: string[] = await redis.lrange(
+    RedisKeys.webhookDeliveries(jobId),
+    0,
+    -1,
+  );
+  return entries.map((entry) => JSON.parse(entry) as WebhookDeliveryAttempt);
+};
@@ -1,8 +1,11 @@
 import type { Toucan } from "@hono/sentry";
+import type { Principal } from "../middleware/auth.ts";
 
 declare module "hono" {
   interface ContextVariableMap {
     requestId: string;
     sentry: Toucan;
+    principal: Principal;
+    idempotencyKey: string | undefined; // Set by idempotencyMiddleware
   }
 }
@@ -7,26 +7,82 @@
  */
 
 import type { Job } from "bullmq";
-import { Worker } from "bullmq";
+import { DelayedError, Worker } from "bullmq";
+import { createHash } from "node:crypto";
 import { env } from "./config/env.ts";
-import type { DownloadJobData } from "./lib/queue.ts";
-import { DOWNLOAD_QUEUE_NAME } from "./lib/queue.ts";
+import type { ArchiveEntry } from "./lib/archive.ts";
+import { ARCHIVE_CONTENT_TYPES, createArchive } from "./lib/archive.ts";
+import { leaveFairQueue } from "./lib/fair-queue.ts";
+import {
+  FileNotFoundError,
+  getJobErrorCode,
+  isPermanentJobError,
+  JobCancelledError,
+  StorageUnavailableError,
+  toStorageError,
+} from "./lib/job-errors.ts";
+import {
+  initMetrics,
+  jobProcessingSeconds,
+  jobQueueWaitSeconds,
+  jobsCompletedTotal,
+  jobsFailedTotal,
+  jobsRetriedTotal,
+  startMetricsServer,
+} from "./lib/metrics.ts";
+import type { DownloadJobData, WebhookDeliveryData } from "./lib/queue.ts";
+import {
+  DOWNLOAD_QUEUE_NAME,
+  MAINTENANCE_QUEUE_NAME,
+  WEBHOOK_QUEUE_NAME,
+  closeQueue,
+  scheduleReconciliation,
+} from "./lib/queue.ts";
 import { createBullMQConnection, closeRedis } from "./lib/redis.ts";
+import {
+  allowsRetry,
+  getRetryPolicy,
+  MAX_JOB_ATTEMPTS,
+  retryPolicyBackoffStrategy,
+} from "./lib/retry-policy.ts";
 import {
   checkS3Availability,
   generatePresignedUrl,
+  getExportKey,
+  getS3Object,
+  sanitizeS3Key,
+  uploadS3Multipart,
   closeS3,
 } from "./lib/s3.ts";
+import { failJobForGood } from "./services/dead-letter.service.ts";
+import { recordJobDuration } from "./services/estimate.service.ts";
+import type { JobArchive, JobTransfer } from "./services/job.service.ts";
 import {
+  admitUserJob,
+  getJob,
   markJobProcessing,
   markJobCompleted,
-  markJobFailed,
+  markJobRetrying,
+  markJobCancelled,
+  isJobCancellationRequested,
+  releaseUserJob,
   updateJobProgress,
-  decrementUserActiveJobs,
 } from "./services/job.service.ts";
+import { recordLaneWait } from "./services/priority.service.ts";
+import { runReconciliation } from "./services/reconciliation.service.ts";
+import { startWatchdog, stopWatchdog } from "./services/watchdog.service.ts";
+import {
+  deliverWebhook,
+  enqueueJobWebhook,
+} from "./services/webhook.service.ts";
+
+initMetrics("worker");
 
 // Worker configuration
 const PROGRESS_UPDATE_INTERVAL_MS = 2000; // Update progress every 2 seconds
+const WEBHOOK_CONCURRENCY = 10;
+const ARCHIVE_CHECK_CONCURRENCY = 10; // Files checked at once before archiving
+const ADMISSION_RETRY_MS = 30 * 1000; // Wait of a started job without a slot
 
 // Sleep helper
 const sleep = (ms: number): Promise<void> =>
@@ -40,26 +96,101 @@ const getRandomDelay = (): number => {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 };
 
-// Process a download job
-const processDownloadJob = async (
+// Run a storage call, classifying its failures as outages or timeouts so a
+// missing file is the only storage answer that fails a job for good
+const withStorage = async <T>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (err) {
+    // Job errors raised inside the operation (e.g. cancellation while an
+    // archive streams) keep their code
+    if (err instanceof Error && getJobErrorCode(err) !== "internal") throw err;
+    throw toStorageError(err);
+  }
+};
+
+// Stop processing if the API flagged the job for cancellation
+const throwIfCancelled = async (jobId: string): Promise<void> => {
+  if (await isJobCancellationRequested(jobId)) {
+    throw new JobCancelledError(jobId);
+  }
+};
+
+// Byte progress of a job, reported at most every PROGRESS_UPDATE_INTERVAL_MS
+// as 0-95% (100% on completion) plus bytes, total and throughput.
+// Cancellation is checked at each report.
+const createByteProgress = (job: Job<DownloadJobData>, totalBytes: number) => {
+  const { jobId } = job.data;
+  const startedAt = Date.now();
+  let bytesProcessed = 0;
+  let lastReportAt = startedAt;
+
+  const getTransfer = (): JobTransfer => {
+    const elapsedMs = Date.now() - startedAt;
+    return {
+      bytesProcessed,
+      totalBytes,
+      throughput:
+        elapsedMs > 0 ? Math.round((bytesProcessed * 1000) / elapsedMs) : 0,
+    };
+  };
+
+  const add = async (bytes: number): Promise<void> => {
+    bytesProcessed += bytes;
+    if (Date.now() - lastReportAt < PROGRESS_UPDATE_INTERVAL_MS) return;
+    lastReportAt = Date.now();
+
+    await throwIfCancelled(jobId);
+    const progress =
+      totalBytes === 0
+        ? 0
+        : Math.min(Math.floor((bytesProcessed / totalBytes) * 95), 95);
+    await updateJobProgress(jobId, progress, getTransfer());
+    await job.updateProgress(progress);
+  };
+
+  return { add, getTransfer };
+};
+
+// Read a file's object end to end, checksumming it on the way
+const streamStorageObject = async (
   job: Job<DownloadJobData>,
-): Promise<{ downloadUrl: string }> => {
-  const { jobId, fileId, userId } = job.data;
-  const startTime = Date.now();
+): Promise<JobTransfer> => {
+  const { jobId, fileId } = job.data;
+  const s3Key = sanitizeS3Key(fileId);
+  const object = await withStorage(() => getS3Object(s3Key));
+  const byteProgress = createByteProgress(job, object.size);
+  const hash = createHash("sha256");
+
+  await withStorage(async () => {
+    for await (const chunk of object.body) {
+      hash.update(chunk);
+      await byteProgress.add(chunk.length);
+    }
+  });
 
+  const transfer = byteProgress.getTransfer();
+  if (transfer.bytesProcessed !== object.size) {
+    throw new StorageUnavailableError(
+      `${s3Key} ended after ${transfer.bytesProcessed.toString()} of ${object.size.toString()} bytes`,
+    );
+  }
   console.log(
-    `[Worker] Processing job ${jobId} for file_id=${fileId.toString()}, user=${userId}`,
+    `[Worker] Job ${jobId}: read ${transfer.bytesProcessed.toString()} bytes at ${transfer.throughput.toString()} B/s, sha256=${hash.digest("hex")}`,
   );
+  return transfer;
+};
 
-  // Mark job as processing
-  await markJobProcessing(jobId);
+// Sleep for a random DOWNLOAD_DELAY_* time with progress updates (simulated
+// mode); progress stops at 90% until the job completes
+const simulateProcessing = async (job: Job<DownloadJobData>): Promise<void> => {
+  const { jobId } = job.data;
 
   // Get simulated processing delay
   const totalDelayMs = getRandomDelay();
   const delaySec = (totalDelayMs / 1000).toFixed(1);
   console.log(`[Worker] Job ${jobId}: simulated delay=${delaySec}s`);
 
-  // Simulate long-running download with progress updates
   const progressIntervals = Math.max(
     1,
     Math.floor(totalDelayMs / PROGRESS_UPDATE_INTERVAL_MS),
@@ -68,6 +199,7 @@ const processDownloadJob = async (
 
   for (let i = 1; i <= progressIntervals; i++) {
     await sleep(delayPerInterval);
+    await throwIfCancelled(jobId);
 
     // Calculate progress (0-90% during processing, 100% on completion)
     const progress = Math.min(Math.floor((i / progressIntervals) * 90), 90);
@@ -80,19 +212,147 @@ const processDownloadJob = async (
 
     console.log(`[Worker] Job ${jobId}: progress=${progress.toString()}%`);
   }
+};
+
+// Bundle an archive job's files into one archive under exports/. Progress
+// follows the bytes read from storage; the upload streams alongside.
+const processArchiveJob = async (
+  job: Job<DownloadJobData>,
+  archive: JobArchive,
+): Promise<{ downloadUrl: string }> => {
+  const { jobId } = job.data;
+  const startTime = Date.now();
+
+  // Every file must exist before anything is uploaded
+  let totalBytes = 0;
+  for (let i = 0; i < archive.fileIds.length; i += ARCHIVE_CHECK_CONCURRENCY) {
+    const fileIds = archive.fileIds.slice(i, i + ARCHIVE_CHECK_CONCURRENCY);
+    const results = await Promise.all(
+      fileIds.map((fileId) => withStorage(() => checkS3Availability(fileId))),
+    );
+    results.forEach((s3Result, j) => {
+      if (!s3Result.available) throw new FileNotFoundError(fileIds[j]);
+      totalBytes += s3Result.size ?? 0;
+    });
+  }
+
+  const byteProgress = createByteProgress(job, totalBytes);
+  async function* countBytes(
+    body: AsyncIterable<Uint8Array>,
+  ): AsyncGenerator<Uint8Array> {
+    for await (const chunk of body) {
+      yield chunk;
+      await byteProgress.add(chunk.length);
+    }
+  }
+
+  // Objects are opened one at a time, as the archive reaches them
+  async function* entries(): AsyncGenerator<ArchiveEntry> {
+    for (const fileId of archive.fileIds) {
+      const s3Key = sanitizeS3Key(fileId);
+      const object = await withStorage(() => getS3Object(s3Key));
+      yield {
+        name: s3Key.slice(s3Key.lastIndexOf("/") + 1),
+        size: object.size,
+        modifiedAt: object.modifiedAt,
+        body: countBytes(object.body),
+      };
+    }
+  }
+
+  const exportKey = getExportKey(jobId, archive.format);
+  const archiveSize = await withStorage(() =>
+    uploadS3Multipart(
+      exportKey,
+      createArchive(archive.format, entries()),
+      ARCHIVE_CONTENT_TYPES[archive.format],
+    ),
+  );
+  const downloadUrl = await withStorage(() => generatePresignedUrl(exportKey));
+
+  // Last checkpoint before the job becomes visible as completed; a cancel
+  // landing after it still wins over the completion
+  await throwIfCancelled(jobId);
+  if (
+    !(await markJobCompleted(jobId, downloadUrl, byteProgress.getTransfer()))
+  ) {
+    throw new JobCancelledError(jobId);
+  }
+
+  console.log(
+    `[Worker] Job ${jobId} archived ${archive.fileIds.length.toString()} files (${archiveSize.toString()} bytes, ${archive.format}) in ${(Date.now() - startTime).toString()}ms`,
+  );
+
+  return { downloadUrl };
+};
+
+// Process a download job
+const processDownloadJob = async (
+  job: Job<DownloadJobData>,
+  token?: string,
+): Promise<{ downloadUrl: string }> => {
+  const { jobId, fileId, userId } = job.data;
+  const startTime = Date.now();
+
+  console.log(
+    `[Worker] Processing job ${jobId} for file_id=${fileId.toString()}, user=${userId}`,
+  );
+
+  // Job may have been cancelled while it was waiting in the queue
+  await throwIfCancelled(jobId);
+
+  // Scheduled jobs take their concurrency slot only now; without a free slot
+  // the job waits and tries again. Everything else was admitted when it was
+  // created or retried, or (batch files) takes no slot at all.
+  if (
+    job.data.admitOnStart === true &&
+    !(await admitUserJob(userId, jobId)).admitted
+  ) {
+    console.log(
+      `[Worker] Job ${jobId} deferred, user ${userId} has no free concurrency slot`,
+    );
+    await job.moveToDelayed(Date.now() + ADMISSION_RETRY_MS, token);
+    throw new DelayedError();
+  }
+
+  // Mark job as processing
+  await markJobProcessing(jobId);
+
+  // Archive jobs bundle several files into one archive
+  const record = await getJob(jobId);
+  if (record?.archive) {
+    return await processArchiveJob(job, record.archive);
+  }
+
+  if (env.DOWNLOAD_PROCESSING_MODE === "simulated") {
+    await simulateProcessing(job);
+  }
 
   // Check if file exists in S3
-  const s3Result = await checkS3Availability(fileId);
+  const s3Result = await withStorage(() => checkS3Availability(fileId));
 
   if (!s3Result.available) {
-    throw new Error(`File not found in storage: file_id=${fileId.toString()}`);
+    throw new FileNotFoundError(fileId);
   }
 
+  // Real work: read the object, reporting progress by bytes
+  const transfer =
+    env.DOWNLOAD_PROCESSING_MODE === "stream"
+      ? await streamStorageObject(job)
+      : undefined;
+
   // Generate presigned URL for direct download
-  const downloadUrl = await generatePresignedUrl(fileId);
+  const downloadUrl = await withStorage(() =>
+    generatePresignedUrl(sanitizeS3Key(fileId)),
+  );
 
-  // Mark job as completed
-  await markJobCompleted(jobId, downloadUrl);
+  // Last checkpoint before the job becomes visible as completed
+  await throwIfCancelled(jobId);
+
+  // Mark job as completed, unless a cancel landed after the checkpoint
+  if (!(await markJobCompleted(jobId, downloadUrl, transfer))) {
+    throw new JobCancelledError(jobId);
+  }
 
   const processingTimeMs = Date.now() - startTime;
   console.log(
@@ -111,6 +371,8 @@ const worker = new Worker<DownloadJobData>(
     concurrency: env.WORKER_CONCURRENCY,
     stalledInterval: 30000, // Check for stalled jobs every 30s
     maxStalledCount: 2, // Retry stalled job twice before failing
+    // Resolves the RETRY_POLICY_BACKOFF type set on download jobs
+    settings: { backoffStrategy: retryPolicyBackoffStrategy },
   },
 );
 
@@ -122,9 +384,31 @@ worker.on("ready", () => {
 });
 
 worker.on("active", (job) => {
-  console.log(`[Worker] Job ${job.data.jobId} started processing`);
+  const { jobId, userId } = job.data;
+  console.log(`[Worker] Job ${jobId} started processing`);
+
+  // The owner's next waiting job moves up in the per-user rotation
+  leaveFairQueue(userId, jobId).catch((err: unknown) => {
+    console.error(`[Worker] Failed to untrack waiting job ${jobId}:`, err);
+  });
+
+  // Queue wait is only meaningful for the first attempt of each run
+  if (job.attemptsMade === 0) {
+    const lane = job.data.priority ?? env.JOB_PRIORITY_DEFAULT;
+    // Scheduled jobs start waiting at their runAt, not when they were added
+    const readyAt = job.timestamp + (job.opts.delay ?? 0);
+    const waitMs = (job.processedOn ?? Date.now()) - readyAt;
+    jobQueueWaitSeconds.observe({ priority: lane }, waitMs / 1000);
+    recordLaneWait(lane, waitMs).catch((err: unknown) => {
+      console.error(`[Worker] Failed to record ${lane} lane wait:`, err);
+    });
+  }
 });
 
+// Seconds the worker spent on the attempt that just finished
+const getAttemptSeconds = (job: Job): number =>
+  ((job.finishedOn ?? Date.now()) - (job.processedOn ?? Date.now())) / 1000;
+
 worker.on("progress", (job, progress) => {
   const progressValue = typeof progress === "number" ? progress : 0;
   console.log(
@@ -135,11 +419,24 @@ worker.on("progress", (job, progress) => {
 worker.on("completed", (job) => {
   const { jobId, userId } = job.data;
   console.log(`[Worker] Job ${jobId} completed successfully`);
+  jobsCompletedTotal.inc();
+  const attemptSeconds = getAttemptSeconds(job);
+  jobProcessingSeconds.observe({ outcome: "completed" }, attemptSeconds);
 
-  // Decrement user's active job count
-  decrementUserActiveJobs(userId).catch((err: unknown) => {
+  // Feeds the queue position / ETA estimates
+  recordJobDuration(attemptSeconds * 1000).catch((err: unknown) => {
+    console.error(`[Worker] Failed to record duration of job ${jobId}:`, err);
+  });
+
+  // Notify the job's callbackUrl, if any
+  enqueueJobWebhook(jobId).catch((err: unknown) => {
+    console.error(`[Worker] Failed to enqueue webhook for job ${jobId}:`, err);
+  });
+
+  // Free the user's concurrency slot
+  releaseUserJob(userId, jobId).catch((err: unknown) => {
     console.error(
-      `[Worker] Failed to decrement active jobs for user ${userId}:`,
+      `[Worker] Failed to release slot of job ${jobId} for user ${userId}:`,
       err,
     );
   });
@@ -151,33 +448,70 @@ worker.on("failed", (job, err) => {
     return;
   }
 
-  const { jobId, fileId, userId } = job.data;
-  const maxAttempts = job.opts.attempts ?? env.JOB_MAX_ATTEMPTS;
-  const attemptsLeft = maxAttempts - job.attemptsMade;
+  const { jobId, fileId } = job.data;
+
+  // Cancelled jobs were already released by the cancel endpoint; only make
+  // sure the final status is not overwritten by the worker's progress updates
+  if (err instanceof JobCancelledError) {
+    console.log(`[Worker] Job ${jobId} stopped after cancellation`);
+    jobProcessingSeconds.observe(
+      { outcome: "cancelled" },
+      getAttemptSeconds(job),
+    );
+    markJobCancelled(jobId).catch((markErr: unknown) => {
+      console.error(
+        `[Worker] Failed to mark job ${jobId} as cancelled:`,
+        markErr,
+      );
+    });
+    return;
+  }
+
+  // Include attempts from earlier runs so manual retries keep the history
+  const totalAttempts = (job.data.previousAttempts ?? 0) + job.attemptsMade;
+  const errorCode = getJobErrorCode(err);
+  const permanent = isPermanentJobError(err);
+  // The same decision BullMQ made through retryPolicyBackoffStrategy
+  const retryPolicy = getRetryPolicy(errorCode);
+  const maxAttempts = Math.min(
+    retryPolicy.maxAttempts,
+    job.opts.attempts ?? MAX_JOB_ATTEMPTS,
+  );
 
   console.error(
-    `[Worker] Job ${jobId} failed (attempt ${job.attemptsMade.toString()}/${maxAttempts.toString()}):`,
+    `[Worker] Job ${jobId} failed with ${errorCode}${permanent ? " (permanent)" : ""} (attempt ${job.attemptsMade.toString()}/${maxAttempts.toString()}, ${retryPolicy.backoff} backoff):`,
     err.message,
   );
 
-  // Mark job as failed in Redis
-  const canRetry = attemptsLeft > 0;
-  markJobFailed(jobId, err.message, canRetry, job.attemptsMade).catch(
-    (markErr: unknown) => {
-      console.error(`[Worker] Failed to mark job ${jobId} as failed:`, markErr);
-    },
-  );
+  // While BullMQ holds an automatic retry the job goes back to "queued";
+  // only the final failure marks it failed. It can then still be retried
+  // manually via POST /v1/download/:jobId/retry; permanent failures can't,
+  // since another run would fail the same way.
+  const willAutoRetry =
+    !permanent &&
+    allowsRetry(retryPolicy, job.attemptsMade) &&
+    job.attemptsMade < maxAttempts;
+  jobProcessingSeconds.observe({ outcome: "failed" }, getAttemptSeconds(job));
+  if (willAutoRetry) {
+    jobsRetriedTotal.inc({ trigger: "auto" });
+  } else {
+    jobsFailedTotal.inc();
+  }
+  // Only the final failure is reported to the callbackUrl, kept in the
+  // dead-letter queue for inspection and replay, and frees the user's
+  // concurrency slot
+  const marked = willAutoRetry
+    ? markJobRetrying(jobId, err.message, errorCode, totalAttempts, retryPolicy)
+    : failJobForGood(job.data, err, totalAttempts, retryPolicy);
+  marked.catch((markErr: unknown) => {
+    console.error(`[Worker] Failed to mark job ${jobId} as failed:`, markErr);
+  });
 
-  // Decrement user's active job count on final failure
-  if (!canRetry) {
-    decrementUserActiveJobs(userId).catch((decErr: unknown) => {
-      console.error(
-        `[Worker] Failed to decrement active jobs for user ${userId}:`,
-        decErr,
-      );
-    });
+  if (!willAutoRetry) {
     console.log(
-      `[Worker] Job ${jobId} exhausted all retries for file_id=${fileId.toString()}`,
+      permanent
+        ? `[Worker] Job ${jobId} failed permanently for file_id=${fileId.toString()}`
+        : `[Worker] Job ${jobId} exhausted all retries for file_id=${fileId.toString()}`,
     );
   }
 });
@@ -190,6 +524,69 @@ worker.on("stalled", (jobId) => {
   console.warn(`[Worker] Job ${jobId} has stalled`);
 });
 
+// Recover jobs left in processing by dead workers
+startWatchdog();
+
+// ============ Maintenance Worker ============
+
+// Runs scheduled housekeeping jobs one at a time
+const maintenanceWorker = new Worker(
+  MAINTENANCE_QUEUE_NAME,
+  async (job: Job) => {
+    if (job.name === "reconcile") {
+      const report = await runReconciliation();
+      return { durationMs: report.durationMs };
+    }
+    throw new Error(`Unknown maintenance job: ${job.name}`);
+  },
+  {
+    connection: createBullMQConnection(),
+    concurrency: 1,
+  },
+);
+
+maintenanceWorker.on("failed", (job, err) => {
+  console.error(
+    `[Worker] Maintenance job ${job?.name ?? "unknown"} failed:`,
+    err,
+  );
+});
+
+// ============ Webhook Worker ============
+
+// Delivers job callbacks; failed deliveries retry with exponential backoff
+const webhookWorker = new Worker<WebhookDeliveryData>(
+  WEBHOOK_QUEUE_NAME,
+  async (job) => {
+    await deliverWebhook(job.data, job.attemptsMade + 1);
+  },
+  {
+    connection: createBullMQConnection(),
+    concurrency: WEBHOOK_CONCURRENCY,
+  },
+);
+
+webhookWorker.on("failed", (job, err) => {
+  if (!job) return;
+  const maxAttempts = job.opts.attempts ?? env.WEBHOOK_MAX_ATTEMPTS;
+  const outcome = job.attemptsMade < maxAttempts ? "will retry" : "giving up";
+  console.warn(
+    `[Worker] Webhook ${job.data.deliveryId} for job ${job.data.jobId} failed ` +
+      `(attempt ${job.attemptsMade.toString()}/${maxAttempts.toString()}, ${outcome}): ${err.message}`,
+  );
+});
+
+// ============ Metrics Listener ============
+
+const metricsServer =
+  env.WORKER_METRICS_PORT === 0
+    ? null
+    : startMetricsServer(env.WORKER_METRICS_PORT);
+
+scheduleReconciliation().catch((err: unknown) => {
+  console.error("[Worker] Failed to schedule reconciliation:", err);
+});
+
 // ============ Graceful Shutdown ============
 /* eslint-disable n/no-process-exit */
 
@@ -212,12 +609,18 @@ const shutdown = (signal: string): void => {
     process.exit(1);
   }, SHUTDOWN_TIMEOUT_MS);
 
-  // Close worker (waits for active jobs to complete)
-  worker
-    .close()
+  stopWatchdog();
+  metricsServer?.close();
+
+  // Close workers (waits for active jobs to complete)
+  Promise.all([
+    worker.close(),
+    maintenanceWorker.close(),
+    webhookWorker.close(),
+  ])
     .then(() => {
       console.log("[Worker] Worker closed");
-      return closeRedis();
+      return Promise.all([closeQueue(), closeRedis()]);
     })
     .then(() => {
       closeS3();
@@ -278,6 +681,10 @@ console.log(`[Worker] Environment: ${env.NODE_ENV}`);
 console.log(`[Worker] Redis: ${env.REDIS_HOST}:${env.REDIS_PORT.toString()}`);
 console.log(`[Worker] Concurrency: ${env.WORKER_CONCURRENCY.toString()}`);
 console.log(
-  `[Worker] Delay range: ${(env.DOWNLOAD_DELAY_MIN_MS / 1000).toString()}s - ${(env.DOWNLOAD_DELAY_MAX_MS / 1000).toString()}s`,
+  env.DOWNLOAD_PROCESSING_MODE === "simulated"
+    ? `[Worker] Processing: simulated, ${(env.DOWNLOAD_DELAY_MIN_MS / 1000).toString()}s - ${(env.DOWNLOAD_DELAY_MAX_MS / 1000).toString()}s`
+    : "[Worker] Processing: stream from storage",
+);
+console.log(
+  `[Worker] Max attempts: ${MAX_JOB_ATTEMPTS.toString()} (per error code: RETRY_POLICIES)`,
 );
-console.log(`[Worker] Max attempts: ${env.JOB_MAX_ATTEMPTS.toString()}`);
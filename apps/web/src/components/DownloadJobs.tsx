@@ -30,11 +30,14 @@ import { Badge } from "@/components/ui/badge";
 import {
   checkDownload,
   createAsyncDownload,
-  subscribeToJobUpdates,
+  retryAsyncDownload,
+  listJobs,
+  subscribeToJobsUpdates,
   downloadFileWithProgress,
   type DownloadCheckResponse,
   type AsyncDownloadResponse,
-  type SSEUpdate,
+  type JobStatusResponse,
+  type MultiplexedSSEUpdate,
   type DownloadProgress,
 } from "@/lib/api";
 import { cn } from "@/lib/utils";
@@ -54,6 +57,54 @@ function ElapsedTime({ startTime }: { startTime: Date }) {
   return <span className="text-warning font-mono ml-2">{elapsed}s</span>;
 }
 
+interface JobEstimate {
+  queuePosition: number | null;
+  estimatedStartAt: number | null;
+  estimatedCompletionAt: number | null;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 90 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+};
+
+// Queue position and live countdown to the estimated start/finish
+function EstimateLabel({
+  status,
+  estimate,
+}: {
+  status: "queued" | "processing";
+  estimate: JobEstimate;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const parts: string[] = [];
+  if (status === "queued") {
+    if (estimate.queuePosition !== null) {
+      parts.push(`#${estimate.queuePosition + 1} in queue`);
+    }
+    if (estimate.estimatedStartAt !== null) {
+      parts.push(
+        `starts in ~${formatRemaining(estimate.estimatedStartAt - now)}`,
+      );
+    }
+  } else if (estimate.estimatedCompletionAt !== null) {
+    parts.push(
+      `~${formatRemaining(estimate.estimatedCompletionAt - now)} left`,
+    );
+  }
+  if (parts.length === 0) return null;
+
+  return (
+    <span className="text-muted-foreground ml-2">{parts.join(" · ")}</span>
+  );
+}
+
 interface DownloadJob {
   id: string;
   fileId: number;
@@ -68,6 +119,10 @@ interface DownloadJob {
     | "failed"
     | "downloading"; // New status for file download
   progress: number;
+  // Bytes the worker read from storage (absent when it simulates processing)
+  transfer?: { bytesProcessed: number; totalBytes: number; throughput: number };
+  // Server-side queue position and ETA while queued or processing
+  estimate?: JobEstimate;
   traceId: string | null;
   checkResult?: DownloadCheckResponse;
   asyncResponse?: AsyncDownloadResponse;
@@ -81,19 +136,59 @@ interface DownloadJob {
   fileDownloadProgress?: DownloadProgress;
 }
 
+// Rebuild a dashboard entry from a job stored on the server
+function toRestoredJob(job: JobStatusResponse): DownloadJob {
+  return {
+    id: job.jobId,
+    fileId: job.fileId,
+    status:
+      job.status === "cancelled"
+        ? "failed"
+        : job.status === "scheduled"
+          ? "queued"
+          : job.status,
+    progress: job.progress,
+    transfer:
+      job.bytesProcessed != null &&
+      job.totalBytes != null &&
+      job.throughput != null
+        ? {
+            bytesProcessed: job.bytesProcessed,
+            totalBytes: job.totalBytes,
+            throughput: job.throughput,
+          }
+        : undefined,
+    estimate: {
+      queuePosition: job.queuePosition ?? null,
+      estimatedStartAt: job.estimatedStartAt ?? null,
+      estimatedCompletionAt: job.estimatedCompletionAt ?? null,
+    },
+    traceId: null,
+    asyncResponse: {
+      jobId: job.jobId,
+      fileId: job.fileId,
+      status:
+        job.status === "queued" || job.status === "scheduled"
+          ? "queued"
+          : "processing",
+      isNew: false,
+      createdAt: job.createdAt,
+      statusUrl: `/v1/download/status/${job.jobId}`,
+      subscribeUrl: `/v1/download/subscribe/${job.jobId}`,
+    },
+    downloadUrl: job.downloadUrl ?? undefined,
+    error: job.status === "cancelled" ? "Cancelled" : (job.error ?? undefined),
+    timestamp: new Date(job.createdAt),
+    startedAt: new Date(job.createdAt),
+    completedAt:
+      job.status === "completed" ? new Date(job.updatedAt) : undefined,
+    sseConnected: false,
+  };
+}
+
 export function DownloadJobs() {
   const [fileIdInput, setFileIdInput] = useState("");
   const [jobs, setJobs] = useState<DownloadJob[]>([]);
-  const [cleanupFunctions, setCleanupFunctions] = useState<
-    Map<string, () => void>
-  >(new Map());
-
-  // Cleanup SSE connections on unmount
-  useEffect(() => {
-    return () => {
-      cleanupFunctions.forEach((cleanup) => cleanup());
-    };
-  }, [cleanupFunctions]);
 
   const updateJob = useCallback(
     (jobId: string, updates: Partial<DownloadJob>) => {
@@ -104,71 +199,146 @@ export function DownloadJobs() {
     [],
   );
 
-  const subscribeToJob = useCallback(
-    (job: DownloadJob) => {
-      if (!job.asyncResponse) return;
+  // Apply an update to the job tracking a server jobId
+  const updateAsyncJob = useCallback(
+    (
+      asyncJobId: string,
+      updates: (job: DownloadJob) => Partial<DownloadJob>,
+    ) => {
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.asyncResponse?.jobId === asyncJobId
+            ? { ...job, ...updates(job) }
+            : job,
+        ),
+      );
+    },
+    [],
+  );
+
+  // Server jobs still in flight, as a stable key for the SSE effect
+  const activeAsyncJobIds = jobs
+    .filter(
+      (job) =>
+        job.asyncResponse &&
+        (job.status === "queued" || job.status === "processing"),
+    )
+    .map((job) => job.asyncResponse?.jobId)
+    .filter((id): id is string => id !== undefined)
+    .sort()
+    .join(",");
+
+  // One multiplexed SSE stream for every active job, reopened when the set changes
+  useEffect(() => {
+    if (!activeAsyncJobIds) return;
+    const jobIds = activeAsyncJobIds.split(",");
+    const setConnected = (sseConnected: boolean) => {
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.asyncResponse && jobIds.includes(job.asyncResponse.jobId)
+            ? { ...job, sseConnected }
+            : job,
+        ),
+      );
+    };
 
-      const cleanup = subscribeToJobUpdates(job.asyncResponse.jobId, {
-        onStatus: (data: SSEUpdate) => {
-          updateJob(job.id, {
-            status: (data.status as DownloadJob["status"]) ?? job.status,
+    const cleanup = subscribeToJobsUpdates(jobIds, {
+      onStatus: (data: MultiplexedSSEUpdate) => {
+        updateAsyncJob(data.jobId, (job) => {
+          const status =
+            (data.status as DownloadJob["status"] | undefined) ?? job.status;
+          return {
+            status,
             progress: data.progress ?? job.progress,
+            transfer:
+              data.bytesProcessed !== undefined &&
+              data.totalBytes !== undefined &&
+              data.throughput !== undefined
+                ? {
+                    bytesProcessed: data.bytesProcessed,
+                    totalBytes: data.totalBytes,
+                    throughput: data.throughput,
+                  }
+                : job.transfer,
+            // Snapshots and refreshes carry an estimate; a new status voids it
+            estimate:
+              data.queuePosition !== undefined
+                ? {
+                    queuePosition: data.queuePosition,
+                    estimatedStartAt: data.estimatedStartAt ?? null,
+                    estimatedCompletionAt: data.estimatedCompletionAt ?? null,
+                  }
+                : status === job.status
+                  ? job.estimate
+                  : undefined,
             sseConnected: true,
-          });
-        },
-        onProgress: (data: SSEUpdate) => {
-          updateJob(job.id, {
-            progress: data.progress ?? job.progress,
-            status: "processing",
-          });
-        },
-        onComplete: (data: SSEUpdate) => {
-          updateJob(job.id, {
-            status: "completed",
-            progress: 100,
-            downloadUrl: data.downloadUrl,
-            completedAt: new Date(),
-            sseConnected: false,
-          });
-          // Remove cleanup function
-          setCleanupFunctions((prev) => {
-            const next = new Map(prev);
-            next.delete(job.id);
-            return next;
-          });
-        },
-        onError: (data: SSEUpdate) => {
-          updateJob(job.id, {
-            status: "failed",
-            error: data.error,
-            sseConnected: false,
-          });
-          // Remove cleanup function
-          setCleanupFunctions((prev) => {
-            const next = new Map(prev);
-            next.delete(job.id);
-            return next;
-          });
-        },
-        onHeartbeat: () => {
-          updateJob(job.id, { sseConnected: true });
-        },
-        onConnectionError: () => {
-          updateJob(job.id, { sseConnected: false });
-        },
-      });
+          };
+        });
+      },
+      onComplete: (data: MultiplexedSSEUpdate) => {
+        updateAsyncJob(data.jobId, () => ({
+          status: "completed",
+          progress: 100,
+          downloadUrl: data.downloadUrl ?? undefined,
+          completedAt: new Date(),
+          sseConnected: false,
+        }));
+      },
+      onError: (data: MultiplexedSSEUpdate) => {
+        updateAsyncJob(data.jobId, () => ({
+          status: "failed",
+          error: data.error ?? undefined,
+          sseConnected: false,
+        }));
+      },
+      onCancelled: (data: MultiplexedSSEUpdate) => {
+        updateAsyncJob(data.jobId, () => ({
+          status: "failed",
+          error: "Cancelled",
+          sseConnected: false,
+        }));
+      },
+      onMissing: (asyncJobId: string) => {
+        updateAsyncJob(asyncJobId, () => ({
+          status: "failed",
+          error: "Job not found or expired",
+          sseConnected: false,
+        }));
+      },
+      onHeartbeat: () => {
+        setConnected(true);
+      },
+      onConnectionError: () => {
+        setConnected(false);
+      },
+    });
+    setConnected(true);
 
-      // Store cleanup function
-      setCleanupFunctions((prev) => {
-        const next = new Map(prev);
-        next.set(job.id, cleanup);
-        return next;
-      });
+    return cleanup;
+  }, [activeAsyncJobIds, updateAsyncJob]);
 
-      updateJob(job.id, { sseConnected: true });
-    },
-    [updateJob],
-  );
+  // Restore the caller's jobs from the server after a page refresh
+  useEffect(() => {
+    let cancelled = false;
+    listJobs({ limit: 50 })
+      .then(({ data }) => {
+        if (cancelled) return;
+        const restored = data.jobs.map(toRestoredJob);
+        // Active jobs are picked up by the multiplexed SSE stream
+        setJobs((prev) => [
+          ...prev,
+          ...restored.filter(
+            (job) => !prev.some((p) => p.asyncResponse?.jobId === job.id),
+          ),
+        ]);
+      })
+      .catch(() => {
+        // Dashboard still works for new jobs without the history
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const checkMutation = useMutation({
     mutationFn: (fileId: number) => checkDownload(fileId),
@@ -228,24 +398,51 @@ export function DownloadJobs() {
         asyncResponse: result.data,
         traceId: result.traceId,
       };
+      // The job joins the multiplexed SSE stream once it has a server jobId
       updateJob(jobId, updatedJob);
-
-      // Get the job and subscribe to SSE
-      setJobs((prev) => {
-        const job = prev.find((j) => j.id === jobId);
-        if (job) {
-          const updatedJobForSubscribe = { ...job, ...updatedJob };
-          // Use setTimeout to avoid state update during render
-          setTimeout(() => subscribeToJob(updatedJobForSubscribe), 0);
-        }
-        return prev;
-      });
     },
     onError: (_error, { jobId }) => {
       updateJob(jobId, { status: "failed", error: "Failed to start download" });
     },
   });
 
+  const retryAsyncMutation = useMutation({
+    mutationFn: ({
+      asyncResponse,
+    }: {
+      jobId: string;
+      asyncResponse: AsyncDownloadResponse;
+    }) => retryAsyncDownload(asyncResponse.jobId, crypto.randomUUID()),
+    onMutate: ({ jobId }) => {
+      updateJob(jobId, {
+        status: "queued",
+        progress: 0,
+        error: undefined,
+        downloadUrl: undefined,
+        startedAt: new Date(),
+        completedAt: undefined,
+        // Keep the job off the SSE stream until the server accepts the retry
+        asyncResponse: undefined,
+      });
+    },
+    onSuccess: (result, { jobId }) => {
+      const updatedJob: Partial<DownloadJob> = {
+        status: result.data.status === "queued" ? "queued" : "processing",
+        asyncResponse: result.data,
+        traceId: result.traceId,
+      };
+      // Rejoins the multiplexed SSE stream now that it is queued again
+      updateJob(jobId, updatedJob);
+    },
+    onError: (_error, { jobId, asyncResponse }) => {
+      updateJob(jobId, {
+        status: "failed",
+        error: "Failed to retry download",
+        asyncResponse,
+      });
+    },
+  });
+
   const triggerSentryMutation = useMutation({
     mutationFn: () => checkDownload(70000, true),
     onMutate: () => {
@@ -264,6 +461,14 @@ export function DownloadJobs() {
       jobId: job.id,
       fileId: job.fileId,
     });
+    // Jobs that reached the API are retried server-side under the same jobId
+    if (job.asyncResponse) {
+      retryAsyncMutation.mutate({
+        jobId: job.id,
+        asyncResponse: job.asyncResponse,
+      });
+      return;
+    }
     // Reset job status and start again
     updateJob(job.id, {
       status: "pending",
@@ -651,8 +856,31 @@ export function DownloadJobs() {
                         {job.startedAt && (
                           <ElapsedTime startTime={job.startedAt} />
                         )}
+                        {job.estimate && (
+                          <EstimateLabel
+                            status={job.status}
+                            estimate={job.estimate}
+                          />
+                        )}
+                      </span>
+                      <span className="font-mono">
+                        {job.progress}%
+                        {job.transfer && job.transfer.totalBytes > 0 && (
+                          <span className="text-muted-foreground ml-1">
+                            (
+                            {(
+                              job.transfer.bytesProcessed /
+                              1024 /
+                              1024
+                            ).toFixed(1)}
+                            /
+                            {(job.transfer.totalBytes / 1024 / 1024).toFixed(1)}{" "}
+                            MB,{" "}
+                            {(job.transfer.throughput / 1024 / 1024).toFixed(1)}{" "}
+                            MB/s)
+                          </span>
+                        )}
                       </span>
-                      <span className="font-mono">{job.progress}%</span>
                     </div>
                     <div className="h-3 bg-secondary rounded-full overflow-hidden relative">
                       <div
@@ -812,7 +1040,9 @@ export function DownloadJobs() {
                       size="sm"
                       variant="outline"
                       onClick={() => handleRetry(job)}
-                      disabled={checkMutation.isPending}
+                      disabled={
+                        checkMutation.isPending || retryAsyncMutation.isPending
+                      }
                     >
                       <RotateCcw className="h-3 w-3 mr-1" />
                       Retry
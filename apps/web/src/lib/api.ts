@@ -40,6 +40,8 @@ export interface DownloadInitiateResponse {
   jobId: string;
   status: "queued" | "processing";
   totalFileIds: number;
+  statusUrl: string;
+  subscribeUrl: string;
 }
 
 export interface DownloadCheckRequest {
@@ -81,14 +83,41 @@ export interface AsyncDownloadResponse {
   subscribeUrl: string;
 }
 
+// Machine-readable failure reason of a download job
+export type JobErrorCode =
+  | "not_found"
+  | "storage_unavailable"
+  | "storage_throttled"
+  | "timeout"
+  | "cancelled"
+  | "internal";
+
 export interface JobStatusResponse {
   jobId: string;
   fileId: number;
-  status: "queued" | "processing" | "completed" | "failed";
+  status:
+    | "scheduled"
+    | "queued"
+    | "processing"
+    | "completed"
+    | "failed"
+    | "cancelled";
   progress: number;
+  // Bytes read from storage; null when the worker simulates processing
+  bytesProcessed?: number | null;
+  totalBytes?: number | null;
+  throughput?: number | null; // Bytes per second
   downloadUrl?: string;
   error?: string;
+  errorCode?: JobErrorCode | null;
   canRetry?: boolean;
+  runAt?: number | null;
+  batchId?: string | null;
+  archive?: { format: "zip" | "tar.gz"; fileIds: number[] } | null;
+  // Jobs ahead in the queue and estimated start/finish (Unix ms)
+  queuePosition?: number | null;
+  estimatedStartAt?: number | null;
+  estimatedCompletionAt?: number | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -96,8 +125,15 @@ export interface JobStatusResponse {
 export interface SSEUpdate {
   status?: string;
   progress?: number;
-  downloadUrl?: string;
-  error?: string;
+  bytesProcessed?: number;
+  totalBytes?: number;
+  throughput?: number;
+  queuePosition?: number | null;
+  estimatedStartAt?: number | null;
+  estimatedCompletionAt?: number | null;
+  downloadUrl?: string | null;
+  error?: string | null;
+  errorCode?: JobErrorCode | null;
   canRetry?: boolean;
   timestamp?: number;
 }
@@ -383,7 +419,8 @@ export async function createAsyncDownload(
 
         const headers: Record<string, string> = {};
         if (idempotencyKey) {
-          headers["x-idempotency-key"] = idempotencyKey;
+          // Structured-field string, per the Idempotency-Key draft
+          headers["Idempotency-Key"] = `"${idempotencyKey}"`;
         }
 
         const result = await apiFetch<AsyncDownloadResponse>("/v1/download", {
@@ -410,12 +447,67 @@ export async function createAsyncDownload(
   });
 }
 
+export async function retryAsyncDownload(
+  jobId: string,
+  idempotencyKey?: string,
+): Promise<{ data: AsyncDownloadResponse; traceId: string | null }> {
+  const tracer = getTracer();
+
+  return new Promise((resolve, reject) => {
+    tracer.startActiveSpan("download.retry_async", async (span) => {
+      try {
+        span.setAttribute("download.job_id", jobId);
+
+        const headers: Record<string, string> = {};
+        if (idempotencyKey) {
+          // Structured-field string, per the Idempotency-Key draft
+          headers["Idempotency-Key"] = `"${idempotencyKey}"`;
+        }
+
+        const result = await apiFetch<AsyncDownloadResponse>(
+          `/v1/download/${jobId}/retry`,
+          {
+            method: "POST",
+            headers,
+          },
+        );
+
+        span.setStatus({ code: 1 as SpanStatusCode });
+        span.end();
+        resolve(result);
+      } catch (error) {
+        span.setStatus({
+          code: 2 as SpanStatusCode,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+        span.recordException(error as Error);
+        span.end();
+        reject(error);
+      }
+    });
+  });
+}
+
 export async function getJobStatus(
   jobId: string,
 ): Promise<{ data: JobStatusResponse; traceId: string | null }> {
   return apiFetch<JobStatusResponse>(`/v1/download/status/${jobId}`);
 }
 
+export interface JobListResponse {
+  jobs: JobStatusResponse[];
+  nextCursor: string | null;
+}
+
+// List the caller's jobs, newest first
+export async function listJobs(params?: {
+  status?: JobStatusResponse["status"];
+  limit?: number;
+  cursor?: string;
+}): Promise<{ data: JobListResponse; traceId: string | null }> {
+  return apiFetch<JobListResponse>("/v1/download/jobs", { params });
+}
+
 // SSE subscription for real-time job updates
 export function subscribeToJobUpdates(
   jobId: string,
@@ -496,6 +588,74 @@ export function subscribeToJobUpdates(
   };
 }
 
+// Update from the multiplexed stream, tagged with the job it belongs to
+export interface MultiplexedSSEUpdate extends SSEUpdate {
+  jobId: string;
+}
+
+// One SSE connection for many jobs. The server drops jobs as they finish
+// and ends the stream once none are left.
+export function subscribeToJobsUpdates(
+  jobIds: string[],
+  callbacks: {
+    onStatus?: (data: MultiplexedSSEUpdate) => void;
+    onComplete?: (data: MultiplexedSSEUpdate) => void;
+    onError?: (data: MultiplexedSSEUpdate) => void;
+    onCancelled?: (data: MultiplexedSSEUpdate) => void;
+    onMissing?: (jobId: string) => void;
+    onHeartbeat?: () => void;
+    onConnectionError?: (error: Error) => void;
+  },
+): () => void {
+  const query = new URLSearchParams({ jobIds: jobIds.join(",") });
+  const url = `${API_URL}/v1/download/subscribe?${query.toString()}`;
+  const eventSource = new EventSource(url);
+  const remaining = new Set(jobIds);
+
+  const listen = (
+    event: string,
+    callback: ((data: MultiplexedSSEUpdate) => void) | undefined,
+    final: boolean,
+  ) => {
+    eventSource.addEventListener(event, (e) => {
+      if (!(e instanceof MessageEvent) || typeof e.data !== "string") return;
+      try {
+        const data = JSON.parse(e.data) as MultiplexedSSEUpdate;
+        callback?.(data);
+        // Close once every job is done instead of letting EventSource reconnect
+        if (final) {
+          remaining.delete(data.jobId);
+          if (remaining.size === 0) eventSource.close();
+        }
+      } catch (err) {
+        console.error(`[SSE] Failed to parse ${event} event:`, err);
+      }
+    });
+  };
+
+  listen("status", callbacks.onStatus, false);
+  listen("progress", callbacks.onStatus, false);
+  listen("complete", callbacks.onComplete, true);
+  listen("error", callbacks.onError, true);
+  listen("cancelled", callbacks.onCancelled, true);
+  listen("missing", (data) => callbacks.onMissing?.(data.jobId), true);
+
+  eventSource.addEventListener("heartbeat", () => {
+    callbacks.onHeartbeat?.();
+  });
+
+  eventSource.onerror = () => {
+    if (eventSource.readyState === EventSource.CLOSED) {
+      return;
+    }
+    callbacks.onConnectionError?.(new Error("SSE connection failed"));
+  };
+
+  return () => {
+    eventSource.close();
+  };
+}
+
 // Download file with progress tracking
 export interface DownloadProgress {
   loaded: number;